@@ -0,0 +1,23 @@
+-- Enable trigram matching for document search
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateIndex
+CREATE INDEX "Document_user_id_created_at_idx" ON "Document"("user_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "Document_user_id_updated_at_idx" ON "Document"("user_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "Document_user_id_filename_idx" ON "Document"("user_id", "filename");
+
+-- CreateIndex
+CREATE INDEX "Document_user_id_status_idx" ON "Document"("user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "Document_filename_trgm_idx" ON "Document" USING GIN ("filename" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Document_summary_trgm_idx" ON "Document" USING GIN ("summary" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "Document_classification_trgm_idx" ON "Document" USING GIN ("classification" gin_trgm_ops);
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "last_synced_at" TIMESTAMP(3),
+ADD COLUMN     "next_sync_at" TIMESTAMP(3),
+ADD COLUMN     "sync_attempts" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "ReconciliationRun" (
+    "id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finished_at" TIMESTAMP(3),
+    "checked" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "timed_out" INTEGER NOT NULL DEFAULT 0,
+    "errors" INTEGER NOT NULL DEFAULT 0,
+    "error_message" TEXT,
+
+    CONSTRAINT "ReconciliationRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Document_status_next_sync_at_idx" ON "Document"("status", "next_sync_at");
+
+-- CreateIndex
+CREATE INDEX "ReconciliationRun_started_at_idx" ON "ReconciliationRun"("started_at");
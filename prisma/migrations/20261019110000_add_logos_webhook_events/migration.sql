@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "last_event_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "LogosWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "event_id" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "logos_id" TEXT NOT NULL,
+    "status" "DocumentStatus" NOT NULL,
+    "occurred_at" TIMESTAMP(3) NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "received_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LogosWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LogosWebhookEvent_event_id_key" ON "LogosWebhookEvent"("event_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LogosWebhookEvent_signature_key" ON "LogosWebhookEvent"("signature");
+
+-- CreateIndex
+CREATE INDEX "LogosWebhookEvent_received_at_idx" ON "LogosWebhookEvent"("received_at");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "checksum" TEXT,
+ADD COLUMN     "file_size" INTEGER,
+ADD COLUMN     "storage_key" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Document_storage_key_key" ON "Document"("storage_key");
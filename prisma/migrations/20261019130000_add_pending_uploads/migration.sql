@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "PendingUpload" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "storage_key" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PendingUpload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PendingUpload_storage_key_key" ON "PendingUpload"("storage_key");
+
+-- CreateIndex
+CREATE INDEX "PendingUpload_expires_at_idx" ON "PendingUpload"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "PendingUpload" ADD CONSTRAINT "PendingUpload_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "dedupe_key" TEXT;
+
+-- Backfill: the oldest copy of each file per user becomes canonical; later copies stay duplicates
+UPDATE "Document" AS d
+SET "dedupe_key" = d."checksum"
+FROM (
+    SELECT DISTINCT ON ("user_id", "checksum") "id"
+    FROM "Document"
+    WHERE "checksum" IS NOT NULL
+    ORDER BY "user_id", "checksum", "created_at"
+) AS canonical
+WHERE d."id" = canonical."id";
+
+-- CreateIndex
+CREATE INDEX "Document_user_id_checksum_idx" ON "Document"("user_id", "checksum");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Document_user_id_dedupe_key_key" ON "Document"("user_id", "dedupe_key");
@@ -0,0 +1,52 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "current_version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN     "version_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "DocumentVersion" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "version_number" INTEGER NOT NULL,
+    "filename" TEXT NOT NULL,
+    "content_type" TEXT NOT NULL,
+    "storage_key" TEXT,
+    "file_size" INTEGER,
+    "checksum" TEXT,
+    "logos_id" TEXT,
+    "status" "DocumentStatus" NOT NULL DEFAULT 'PENDING',
+    "summary" TEXT,
+    "classification" TEXT,
+    "error_message" TEXT,
+    "last_event_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: every existing document becomes version 1 of itself
+INSERT INTO "DocumentVersion" (
+    "id", "document_id", "version_number", "filename", "content_type", "storage_key", "file_size", "checksum",
+    "logos_id", "status", "summary", "classification", "error_message", "last_event_at", "created_at", "updated_at"
+)
+SELECT
+    gen_random_uuid()::TEXT, "id", 1, "filename", "content_type", "storage_key", "file_size", "checksum",
+    "logos_id", "status", "summary", "classification", "error_message", "last_event_at", "created_at", "updated_at"
+FROM "Document";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentVersion_storage_key_key" ON "DocumentVersion"("storage_key");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentVersion_logos_id_key" ON "DocumentVersion"("logos_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentVersion_document_id_version_number_key" ON "DocumentVersion"("document_id", "version_number");
+
+-- AddForeignKey
+ALTER TABLE "DocumentVersion" ADD CONSTRAINT "DocumentVersion_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatSession" ADD CONSTRAINT "ChatSession_version_id_fkey" FOREIGN KEY ("version_id") REFERENCES "DocumentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "SharePermission" AS ENUM ('VIEW', 'CHAT', 'MANAGE');
+
+-- CreateTable
+CREATE TABLE "DocumentShare" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "permission" "SharePermission" NOT NULL,
+    "granted_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DocumentShare_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DocumentShare_user_id_idx" ON "DocumentShare"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DocumentShare_document_id_user_id_key" ON "DocumentShare"("document_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "DocumentShare" ADD CONSTRAINT "DocumentShare_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentShare" ADD CONSTRAINT "DocumentShare_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DocumentShare" ADD CONSTRAINT "DocumentShare_granted_by_id_fkey" FOREIGN KEY ("granted_by_id") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
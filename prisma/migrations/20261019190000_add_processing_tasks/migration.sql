@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "ProcessingTaskType" AS ENUM ('UPLOAD', 'STATUS_POLL', 'SYNC', 'DELETE', 'REPROCESS');
+
+-- CreateEnum
+CREATE TYPE "ProcessingTaskOutcome" AS ENUM ('SUCCESS', 'FAILURE');
+
+-- AlterTable
+ALTER TABLE "DocumentVersion" ADD COLUMN "processed_at" TIMESTAMP(3),
+ADD COLUMN "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Best available estimates for existing versions
+UPDATE "DocumentVersion" SET "submitted_at" = "created_at";
+
+UPDATE "DocumentVersion" SET "processed_at" = COALESCE("last_event_at", "updated_at") WHERE "status" IN ('COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ProcessingTask" (
+    "id" TEXT NOT NULL,
+    "document_id" TEXT,
+    "logos_id" TEXT,
+    "type" "ProcessingTaskType" NOT NULL,
+    "outcome" "ProcessingTaskOutcome" NOT NULL,
+    "http_status" INTEGER,
+    "error" TEXT,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "finished_at" TIMESTAMP(3) NOT NULL,
+    "duration_ms" INTEGER NOT NULL,
+
+    CONSTRAINT "ProcessingTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProcessingTask_started_at_idx" ON "ProcessingTask"("started_at");
+
+-- CreateIndex
+CREATE INDEX "ProcessingTask_type_started_at_idx" ON "ProcessingTask"("type", "started_at");
+
+-- CreateIndex
+CREATE INDEX "ProcessingTask_document_id_idx" ON "ProcessingTask"("document_id");
+
+-- AddForeignKey
+ALTER TABLE "ProcessingTask" ADD CONSTRAINT "ProcessingTask_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
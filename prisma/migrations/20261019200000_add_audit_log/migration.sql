@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "AuditAction" AS ENUM ('REGISTER', 'LOGIN', 'TOKEN_REFRESH', 'LOGOUT', 'DOCUMENT_UPLOAD', 'DOCUMENT_DOWNLOAD', 'DOCUMENT_DELETE', 'DOCUMENT_SYNC', 'CHAT_HISTORY_CLEAR', 'ROLE_CHANGE', 'USER_DISABLE', 'USER_ENABLE', 'USER_FORCE_LOGOUT');
+
+-- CreateEnum
+CREATE TYPE "AuditOutcome" AS ENUM ('SUCCESS', 'FAILURE');
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "action" "AuditAction" NOT NULL,
+    "outcome" "AuditOutcome" NOT NULL,
+    "status_code" INTEGER,
+    "actor_id" TEXT,
+    "actor_email" TEXT,
+    "target_type" TEXT,
+    "target_id" TEXT,
+    "ip" TEXT,
+    "user_agent" TEXT,
+    "metadata" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_created_at_idx" ON "AuditLog"("created_at");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actor_id_created_at_idx" ON "AuditLog"("actor_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_action_created_at_idx" ON "AuditLog"("action", "created_at");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_target_id_idx" ON "AuditLog"("target_id");
+
+-- Audit entries can be inserted but never changed or removed
+CREATE FUNCTION "audit_log_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'AuditLog is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "AuditLog_append_only"
+    BEFORE UPDATE OR DELETE ON "AuditLog"
+    FOR EACH ROW EXECUTE FUNCTION "audit_log_append_only"();
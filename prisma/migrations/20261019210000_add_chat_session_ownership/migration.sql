@@ -0,0 +1,34 @@
+-- DropIndex
+DROP INDEX "ChatSession_document_id_key";
+
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN     "title" TEXT,
+ADD COLUMN     "user_id" TEXT;
+
+-- Existing sessions were shared by every participant; hand them to the document's uploader
+UPDATE "ChatSession" s
+SET "user_id" = d."user_id"
+FROM "Document" d
+WHERE d."id" = s."document_id";
+
+-- Title existing conversations after their first question
+UPDATE "ChatSession" s
+SET "title" = LEFT(m."content", 80)
+FROM (
+    SELECT DISTINCT ON ("session_id") "session_id", REGEXP_REPLACE(TRIM("content"), '\s+', ' ', 'g') AS "content"
+    FROM "ChatMessage"
+    WHERE "role" = 'user'
+    ORDER BY "session_id", "created_at"
+) m
+WHERE m."session_id" = s."id";
+
+ALTER TABLE "ChatSession" ALTER COLUMN "user_id" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "ChatSession_document_id_user_id_updated_at_idx" ON "ChatSession"("document_id", "user_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "ChatSession_user_id_updated_at_idx" ON "ChatSession"("user_id", "updated_at");
+
+-- AddForeignKey
+ALTER TABLE "ChatSession" ADD CONSTRAINT "ChatSession_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,71 @@
+-- CreateTable
+CREATE TABLE "ChatSessionDocument" (
+    "session_id" TEXT NOT NULL,
+    "document_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "version_id" TEXT,
+
+    CONSTRAINT "ChatSessionDocument_pkey" PRIMARY KEY ("session_id","document_id")
+);
+
+-- CreateTable
+CREATE TABLE "ChatCitation" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "chunk_id" TEXT NOT NULL,
+    "document_id" TEXT,
+    "logos_id" TEXT,
+
+    CONSTRAINT "ChatCitation_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing sessions chat with a single document
+INSERT INTO "ChatSessionDocument" ("session_id", "document_id", "position", "version_id")
+SELECT "id", "document_id", 0, "version_id" FROM "ChatSession";
+
+-- Attribute stored chunk ids to their session's document
+INSERT INTO "ChatCitation" ("id", "message_id", "position", "chunk_id", "document_id", "logos_id")
+SELECT gen_random_uuid()::text, m."id", c."ordinality" - 1, c."chunk_id", s."document_id", COALESCE(v."logos_id", d."logos_id")
+FROM "ChatMessage" m
+CROSS JOIN LATERAL UNNEST(m."chunk_ids") WITH ORDINALITY AS c("chunk_id", "ordinality")
+JOIN "ChatSession" s ON s."id" = m."session_id"
+JOIN "Document" d ON d."id" = s."document_id"
+LEFT JOIN "DocumentVersion" v ON v."id" = s."version_id";
+
+-- DropForeignKey
+ALTER TABLE "ChatSession" DROP CONSTRAINT "ChatSession_document_id_fkey";
+
+-- DropForeignKey
+ALTER TABLE "ChatSession" DROP CONSTRAINT "ChatSession_version_id_fkey";
+
+-- DropIndex
+DROP INDEX "ChatSession_document_id_user_id_updated_at_idx";
+
+-- AlterTable
+ALTER TABLE "ChatSession" DROP COLUMN "document_id",
+DROP COLUMN "version_id";
+
+-- CreateIndex
+CREATE INDEX "ChatSessionDocument_document_id_idx" ON "ChatSessionDocument"("document_id");
+
+-- CreateIndex
+CREATE INDEX "ChatCitation_document_id_idx" ON "ChatCitation"("document_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ChatCitation_message_id_position_key" ON "ChatCitation"("message_id", "position");
+
+-- AddForeignKey
+ALTER TABLE "ChatSessionDocument" ADD CONSTRAINT "ChatSessionDocument_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "ChatSession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatSessionDocument" ADD CONSTRAINT "ChatSessionDocument_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatSessionDocument" ADD CONSTRAINT "ChatSessionDocument_version_id_fkey" FOREIGN KEY ("version_id") REFERENCES "DocumentVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatCitation" ADD CONSTRAINT "ChatCitation_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatCitation" ADD CONSTRAINT "ChatCitation_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "Document"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ChatCitation" ADD COLUMN     "char_end" INTEGER,
+ADD COLUMN     "char_start" INTEGER,
+ADD COLUMN     "page_number" INTEGER,
+ADD COLUMN     "resolved_at" TIMESTAMP(3),
+ADD COLUMN     "text" TEXT;
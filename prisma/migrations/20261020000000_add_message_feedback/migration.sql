@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "FeedbackRating" AS ENUM ('UP', 'DOWN');
+
+-- CreateEnum
+CREATE TYPE "FeedbackReason" AS ENUM ('INACCURATE', 'INCOMPLETE', 'IRRELEVANT', 'UNSUPPORTED_BY_SOURCES', 'HARD_TO_READ', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "MessageFeedback" (
+    "id" TEXT NOT NULL,
+    "message_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "rating" "FeedbackRating" NOT NULL,
+    "reason" "FeedbackReason",
+    "comment" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MessageFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageFeedback_message_id_key" ON "MessageFeedback"("message_id");
+
+-- CreateIndex
+CREATE INDEX "MessageFeedback_created_at_idx" ON "MessageFeedback"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "MessageFeedback" ADD CONSTRAINT "MessageFeedback_message_id_fkey" FOREIGN KEY ("message_id") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MessageFeedback" ADD CONSTRAINT "MessageFeedback_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
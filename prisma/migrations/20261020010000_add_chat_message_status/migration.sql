@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ChatMessageStatus" AS ENUM ('STREAMING', 'COMPLETE', 'INCOMPLETE', 'ERROR');
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "error" TEXT,
+ADD COLUMN     "status" "ChatMessageStatus" NOT NULL DEFAULT 'COMPLETE';
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN     "summarized_until" TIMESTAMP(3),
+ADD COLUMN     "summary" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_session_id_created_at_idx" ON "ChatMessage"("session_id", "created_at");
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "parent_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "ChatSession" ADD COLUMN     "active_message_id" TEXT,
+ADD COLUMN     "summarized_message_id" TEXT;
+
+-- Existing conversations become a single branch: each message follows the previous one in its session
+UPDATE "ChatMessage" m
+SET "parent_id" = p."previous_id"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "session_id" ORDER BY "created_at", "id") AS "previous_id"
+  FROM "ChatMessage"
+) p
+WHERE m."id" = p."id";
+
+-- The branch ends at the latest message
+UPDATE "ChatSession" s
+SET "active_message_id" = (
+  SELECT m."id" FROM "ChatMessage" m
+  WHERE m."session_id" = s."id"
+  ORDER BY m."created_at" DESC, m."id" DESC
+  LIMIT 1
+);
+
+-- Summaries now end at a message instead of a timestamp
+UPDATE "ChatSession" s
+SET "summarized_message_id" = (
+  SELECT m."id" FROM "ChatMessage" m
+  WHERE m."session_id" = s."id" AND m."created_at" <= s."summarized_until"
+  ORDER BY m."created_at" DESC, m."id" DESC
+  LIMIT 1
+)
+WHERE s."summarized_until" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ChatSession" DROP COLUMN "summarized_until";
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_parent_id_idx" ON "ChatMessage"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "ChatSession" ADD CONSTRAINT "ChatSession_summarized_message_id_fkey" FOREIGN KEY ("summarized_message_id") REFERENCES "ChatMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatSession" ADD CONSTRAINT "ChatSession_active_message_id_fkey" FOREIGN KEY ("active_message_id") REFERENCES "ChatMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
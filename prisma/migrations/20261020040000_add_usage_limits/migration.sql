@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'USER_LIMITS_CHANGE';
+
+-- CreateTable
+CREATE TABLE "UsageLimitOverride" (
+    "user_id" TEXT NOT NULL,
+    "api_requests_per_minute" INTEGER,
+    "upload_requests_per_minute" INTEGER,
+    "chat_requests_per_minute" INTEGER,
+    "max_documents" INTEGER,
+    "max_storage_bytes" BIGINT,
+    "chat_messages_per_day" INTEGER,
+    "updated_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UsageLimitOverride_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateTable
+CREATE TABLE "DailyUsage" (
+    "user_id" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "chat_messages" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DailyUsage_pkey" PRIMARY KEY ("user_id","day")
+);
+
+-- AddForeignKey
+ALTER TABLE "UsageLimitOverride" ADD CONSTRAINT "UsageLimitOverride_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DailyUsage" ADD CONSTRAINT "DailyUsage_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'ACCESS_TOKEN_CREATE';
+ALTER TYPE "AuditAction" ADD VALUE 'ACCESS_TOKEN_REVOKE';
+
+-- CreateTable
+CREATE TABLE "PersonalAccessToken" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "token_prefix" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "expires_at" TIMESTAMP(3),
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PersonalAccessToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PersonalAccessToken_token_hash_key" ON "PersonalAccessToken"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "PersonalAccessToken_user_id_created_at_idx" ON "PersonalAccessToken"("user_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "PersonalAccessToken" ADD CONSTRAINT "PersonalAccessToken_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
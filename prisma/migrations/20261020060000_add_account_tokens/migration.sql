@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "AccountTokenPurpose" AS ENUM ('EMAIL_VERIFICATION', 'PASSWORD_RESET');
+
+-- AlterEnum
+ALTER TYPE "AuditAction" ADD VALUE 'EMAIL_VERIFY';
+ALTER TYPE "AuditAction" ADD VALUE 'PASSWORD_RESET_REQUEST';
+ALTER TYPE "AuditAction" ADD VALUE 'PASSWORD_RESET';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "email_verified_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "AccountToken" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "purpose" "AccountTokenPurpose" NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AccountToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AccountToken_token_hash_key" ON "AccountToken"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "AccountToken_user_id_purpose_idx" ON "AccountToken"("user_id", "purpose");
+
+-- AddForeignKey
+ALTER TABLE "AccountToken" ADD CONSTRAINT "AccountToken_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { DocumentAccessService } from './document-access.service';
+
+@Module({
+  providers: [DocumentAccessService],
+  exports: [DocumentAccessService],
+})
+export class AccessModule {}
@@ -0,0 +1,88 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Document, Prisma, SharePermission, WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+
+// What a caller may do with a document: owners can do everything, recipients what their share
+// or workspace role allows
+export type DocumentAccessLevel = SharePermission | 'OWNER';
+
+const ACCESS_RANK: Record<DocumentAccessLevel, number> = {
+  [SharePermission.VIEW]: 1,
+  [SharePermission.CHAT]: 2,
+  [SharePermission.MANAGE]: 3,
+  OWNER: 4,
+};
+
+// Access a workspace role grants on the workspace's documents
+export const WORKSPACE_ACCESS: Record<WorkspaceRole, DocumentAccessLevel> = {
+  [WorkspaceRole.OWNER]: 'OWNER',
+  [WorkspaceRole.EDITOR]: SharePermission.MANAGE,
+  [WorkspaceRole.VIEWER]: SharePermission.CHAT,
+};
+
+export interface DocumentAccess {
+  document: Document;
+  level: DocumentAccessLevel;
+}
+
+// Single access policy for documents, used by every module that reads or acts on one
+@Injectable()
+export class DocumentAccessService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async authorize(userId: string, documentId: string, required: DocumentAccessLevel): Promise<DocumentAccess> {
+    const document = await this.prisma.document.findUnique({
+      where: { id: documentId },
+      include: {
+        shares: { where: { user_id: userId }, select: { permission: true } },
+        organization: { select: { memberships: { where: { user_id: userId }, select: { role: true } } } },
+      },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    const { shares, organization, ...rest } = document;
+    const membership = organization?.memberships[0];
+    const candidates: DocumentAccessLevel[] = [];
+
+    // Workspace documents belong to the workspace, not to whoever uploaded them
+    if (!document.organization_id && document.user_id === userId) {
+      candidates.push('OWNER');
+    }
+    if (membership) {
+      candidates.push(WORKSPACE_ACCESS[membership.role]);
+    }
+    if (shares[0]) {
+      candidates.push(shares[0].permission);
+    }
+
+    const level = this.highest(candidates);
+    if (!level || !this.satisfies(level, required)) {
+      throw new ForbiddenException('Access denied');
+    }
+
+    return { document: rest, level };
+  }
+
+  satisfies(level: DocumentAccessLevel, required: DocumentAccessLevel): boolean {
+    return ACCESS_RANK[level] >= ACCESS_RANK[required];
+  }
+
+  // Documents the user owns personally or that were shared with them
+  accessibleBy(userId: string): Prisma.DocumentWhereInput {
+    return { OR: [this.ownedBy(userId), { shares: { some: { user_id: userId } } }] };
+  }
+
+  ownedBy(userId: string): Prisma.DocumentWhereInput {
+    return { user_id: userId, organization_id: null };
+  }
+
+  private highest(levels: DocumentAccessLevel[]): DocumentAccessLevel | undefined {
+    return levels.reduce<DocumentAccessLevel | undefined>(
+      (best, level) => (!best || ACCESS_RANK[level] > ACCESS_RANK[best] ? level : best),
+      undefined,
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { Controller, Get, Post, Put, Patch, Param, Query, Body, HttpCode, HttpStatus } from '@nestjs/common';
+import { AuditAction, Role } from '@prisma/client';
+import { AdminService } from './admin.service';
+import { UsageService } from '../usage/usage.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Audit } from '../audit/decorators/audit.decorator';
+import { AdminUserResponseDto, ListUserDocumentsQueryDto, ListUsersQueryDto, UpdateUserRoleDto } from './dto/admin.dto';
+import { UpdateUsageLimitsDto, UserLimitsResponseDto } from '../usage/dto/usage.dto';
+
+@Controller('admin')
+@Roles(Role.ADMIN)
+export class AdminController {
+  constructor(
+    private readonly adminService: AdminService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  @Get('users')
+  async listUsers(@Query() query: ListUsersQueryDto) {
+    return this.adminService.listUsers(query);
+  }
+
+  @Get('users/:id')
+  async getUser(@Param('id') userId: string) {
+    return this.adminService.getUser(userId);
+  }
+
+  @Patch('users/:id/role')
+  @Audit(AuditAction.ROLE_CHANGE, {
+    targetType: 'user',
+    targetParam: 'id',
+    fromResult: (result: AdminUserResponseDto) => ({ metadata: { role: result.role } }),
+  })
+  async updateRole(@CurrentUser('id') adminId: string, @Param('id') userId: string, @Body() dto: UpdateUserRoleDto) {
+    return this.adminService.updateRole(adminId, userId, dto.role);
+  }
+
+  @Post('users/:id/disable')
+  @Audit(AuditAction.USER_DISABLE, { targetType: 'user', targetParam: 'id' })
+  @HttpCode(HttpStatus.OK)
+  async disableUser(@CurrentUser('id') adminId: string, @Param('id') userId: string) {
+    return this.adminService.disableUser(adminId, userId);
+  }
+
+  @Post('users/:id/enable')
+  @Audit(AuditAction.USER_ENABLE, { targetType: 'user', targetParam: 'id' })
+  @HttpCode(HttpStatus.OK)
+  async enableUser(@Param('id') userId: string) {
+    return this.adminService.enableUser(userId);
+  }
+
+  @Post('users/:id/logout')
+  @Audit(AuditAction.USER_FORCE_LOGOUT, { targetType: 'user', targetParam: 'id' })
+  @HttpCode(HttpStatus.OK)
+  async forceLogout(@Param('id') userId: string) {
+    return this.adminService.forceLogout(userId);
+  }
+
+  @Get('users/:id/limits')
+  async getUserLimits(@Param('id') userId: string) {
+    return this.usageService.getUserLimits(userId);
+  }
+
+  // Override the user's role defaults; null fields go back to the default
+  @Put('users/:id/limits')
+  @Audit(AuditAction.USER_LIMITS_CHANGE, {
+    targetType: 'user',
+    targetParam: 'id',
+    fromResult: (result: UserLimitsResponseDto) => ({ metadata: { overrides: result.overrides } }),
+  })
+  async updateUserLimits(
+    @CurrentUser('id') adminId: string,
+    @Param('id') userId: string,
+    @Body() dto: UpdateUsageLimitsDto,
+  ) {
+    return this.usageService.updateUserLimits(adminId, userId, dto);
+  }
+
+  @Get('users/:id/documents')
+  async listUserDocuments(@Param('id') userId: string, @Query() query: ListUserDocumentsQueryDto) {
+    return this.adminService.listUserDocuments(userId, query);
+  }
+
+  @Get('documents/:id')
+  async getDocument(@Param('id') documentId: string) {
+    return this.adminService.getDocument(documentId);
+  }
+}
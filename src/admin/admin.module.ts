@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { AdminService } from './admin.service';
+import { LogosModule } from '../logos/logos.module';
+import { ProcessingTasksModule } from '../processing-tasks/processing-tasks.module';
+import { UsageModule } from '../usage/usage.module';
+
+@Module({
+  imports: [LogosModule, ProcessingTasksModule, UsageModule],
+  controllers: [AdminController],
+  providers: [AdminService],
+})
+export class AdminModule {}
@@ -0,0 +1,232 @@
+import { Injectable, Logger, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma, ProcessingTaskType, Role } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService, LogosStatusResponse } from '../logos/logos.service';
+import { ProcessingTasksService } from '../processing-tasks/processing-tasks.service';
+import {
+  AdminDocumentDetailDto,
+  AdminDocumentResponseDto,
+  AdminUserResponseDto,
+  ListUserDocumentsQueryDto,
+  ListUsersQueryDto,
+  PageDto,
+} from './dto/admin.dto';
+
+const ADMIN_DOCUMENT_SELECT = {
+  id: true,
+  filename: true,
+  content_type: true,
+  organization_id: true,
+  current_version: true,
+  logos_id: true,
+  status: true,
+  error_message: true,
+  sync_attempts: true,
+  next_sync_at: true,
+  last_synced_at: true,
+  last_event_at: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.DocumentSelect;
+
+@Injectable()
+export class AdminService {
+  private readonly logger = new Logger(AdminService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logosService: LogosService,
+    private readonly processingTasks: ProcessingTasksService,
+  ) {}
+
+  async listUsers(query: ListUsersQueryDto): Promise<PageDto<AdminUserResponseDto>> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const where: Prisma.UserWhereInput = {};
+
+    if (query.search) {
+      where.OR = [
+        { email: { contains: query.search, mode: 'insensitive' } },
+        { name: { contains: query.search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (query.role) {
+      where.role = query.role;
+    }
+
+    if (query.state) {
+      where.disabled_at = query.state === 'disabled' ? { not: null } : null;
+    }
+
+    const [users, total] = await Promise.all([
+      this.prisma.user.findMany({
+        where,
+        include: this.userCounts(),
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.user.count({ where }),
+    ]);
+
+    return { items: users.map((user) => this.toUserResponse(user)), total, page, limit };
+  }
+
+  async getUser(userId: string): Promise<AdminUserResponseDto> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, include: this.userCounts() });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.toUserResponse(user);
+  }
+
+  async updateRole(adminId: string, userId: string, role: Role): Promise<AdminUserResponseDto> {
+    if (adminId === userId && role !== Role.ADMIN) {
+      throw new BadRequestException('Admins cannot remove their own admin role');
+    }
+
+    await this.findUser(userId);
+    await this.prisma.user.update({ where: { id: userId }, data: { role } });
+
+    // Access tokens carry the role, so existing sessions must sign in again
+    await this.prisma.refreshToken.deleteMany({ where: { user_id: userId } });
+
+    return this.getUser(userId);
+  }
+
+  // Disabled users are rejected by login, refresh and the JWT strategy; their sessions end immediately
+  async disableUser(adminId: string, userId: string): Promise<AdminUserResponseDto> {
+    if (adminId === userId) {
+      throw new BadRequestException('Admins cannot disable their own account');
+    }
+
+    const user = await this.findUser(userId);
+
+    await this.prisma.$transaction([
+      this.prisma.user.update({ where: { id: userId }, data: { disabled_at: user.disabled_at ?? new Date() } }),
+      this.prisma.refreshToken.deleteMany({ where: { user_id: userId } }),
+    ]);
+
+    return this.getUser(userId);
+  }
+
+  async enableUser(userId: string): Promise<AdminUserResponseDto> {
+    await this.findUser(userId);
+    await this.prisma.user.update({ where: { id: userId }, data: { disabled_at: null } });
+
+    return this.getUser(userId);
+  }
+
+  // Revokes every refresh token; access tokens already issued expire on their own
+  async forceLogout(userId: string) {
+    await this.findUser(userId);
+    const { count } = await this.prisma.refreshToken.deleteMany({ where: { user_id: userId } });
+
+    return { message: 'User logged out', revoked_sessions: count };
+  }
+
+  async listUserDocuments(
+    userId: string,
+    query: ListUserDocumentsQueryDto,
+  ): Promise<PageDto<AdminDocumentResponseDto>> {
+    await this.findUser(userId);
+
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 20;
+    const where: Prisma.DocumentWhereInput = {
+      user_id: userId,
+      ...(query.status?.length && { status: { in: query.status } }),
+    };
+
+    const [items, total] = await Promise.all([
+      this.prisma.document.findMany({
+        where,
+        select: ADMIN_DOCUMENT_SELECT,
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.document.count({ where }),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  // Local record alongside the live state Logos reports for it
+  async getDocument(documentId: string): Promise<AdminDocumentDetailDto> {
+    const document = await this.prisma.document.findUnique({
+      where: { id: documentId },
+      select: {
+        ...ADMIN_DOCUMENT_SELECT,
+        user_id: true,
+        versions: {
+          select: { version_number: true, logos_id: true, status: true, created_at: true },
+          orderBy: { version_number: 'desc' },
+        },
+      },
+    });
+
+    if (!document) {
+      throw new NotFoundException('Document not found');
+    }
+
+    let logos: LogosStatusResponse | null = null;
+    let logosError: string | null = null;
+
+    if (document.logos_id) {
+      try {
+        const logosId = document.logos_id;
+        logos = await this.processingTasks.track(
+          { type: ProcessingTaskType.STATUS_POLL, documentId: document.id, logosId },
+          () => this.logosService.getDocumentStatus(logosId),
+        );
+      } catch (error) {
+        this.logger.warn(`Failed to fetch Logos status for ${document.id}: ${error.message}`);
+        logosError = error.message;
+      }
+    }
+
+    return { ...document, logos, logos_error: logosError };
+  }
+
+  private async findUser(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private userCounts() {
+    return {
+      _count: {
+        select: {
+          documents: true,
+          refresh_tokens: { where: { expires_at: { gt: new Date() } } },
+        },
+      },
+    } satisfies Prisma.UserInclude;
+  }
+
+  private toUserResponse(
+    user: Prisma.UserGetPayload<{ include: ReturnType<AdminService['userCounts']> }>,
+  ): AdminUserResponseDto {
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      disabled_at: user.disabled_at,
+      email_verified_at: user.email_verified_at,
+      document_count: user._count.documents,
+      session_count: user._count.refresh_tokens,
+      created_at: user.created_at,
+      updated_at: user.updated_at,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import { IsEnum, IsIn, IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DocumentStatus, Role } from '@prisma/client';
+import { LogosStatusResponse } from '../../logos/logos.service';
+
+export class PaginationQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class ListUsersQueryDto extends PaginationQueryDto {
+  // Matches email or name
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @IsOptional()
+  @IsEnum(Role)
+  role?: Role;
+
+  @IsOptional()
+  @IsIn(['active', 'disabled'])
+  state?: 'active' | 'disabled';
+}
+
+export class ListUserDocumentsQueryDto extends PaginationQueryDto {
+  @IsOptional()
+  @Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(',')))
+  @IsEnum(DocumentStatus, { each: true })
+  status?: DocumentStatus[];
+}
+
+export class UpdateUserRoleDto {
+  @IsEnum(Role)
+  role: Role;
+}
+
+export class AdminUserResponseDto {
+  id: string;
+  email: string;
+  name: string | null;
+  role: Role;
+  disabled_at: Date | null;
+  email_verified_at: Date | null;
+  document_count: number;
+  session_count: number; // Live refresh tokens
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class AdminDocumentResponseDto {
+  id: string;
+  filename: string;
+  content_type: string;
+  organization_id: string | null;
+  current_version: number;
+  logos_id: string | null;
+  status: DocumentStatus;
+  error_message: string | null;
+  sync_attempts: number;
+  next_sync_at: Date | null;
+  last_synced_at: Date | null;
+  last_event_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PageDto<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export class AdminDocumentDetailDto extends AdminDocumentResponseDto {
+  user_id: string;
+  versions: { version_number: number; logos_id: string | null; status: DocumentStatus; created_at: Date }[];
+  logos: LogosStatusResponse | null; // Live state from Logos, null when it couldn't be fetched
+  logos_error: string | null;
+}
@@ -1,15 +1,31 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
-import { APP_GUARD } from '@nestjs/core';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
 import configuration from './config/configuration';
 import { validateEnv } from './config/validation';
 import { PrismaModule } from './database/prisma.module';
 import { AuthModule } from './auth/auth.module';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { RolesGuard } from './auth/guards/roles.guard';
+import { ScopesGuard } from './auth/guards/scopes.guard';
 import { LogosModule } from './logos/logos.module';
+import { StorageModule } from './storage/storage.module';
 import { DocumentsModule } from './documents/documents.module';
 import { ChatModule } from './chat/chat.module';
+import { ReconciliationModule } from './reconciliation/reconciliation.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { OrganizationsModule } from './organizations/organizations.module';
+import { WorkspaceGuard } from './organizations/guards/workspace.guard';
+import { AdminModule } from './admin/admin.module';
+import { ProcessingTasksModule } from './processing-tasks/processing-tasks.module';
+import { AuditModule } from './audit/audit.module';
+import { FeedbackModule } from './feedback/feedback.module';
+import { AuditGuard } from './audit/audit.guard';
+import { AuditInterceptor } from './audit/audit.interceptor';
+import { UsageModule } from './usage/usage.module';
+import { RateLimitGuard } from './usage/guards/rate-limit.guard';
+import { UsageLimitFilter } from './usage/filters/usage-limit.filter';
 
 @Module({
   imports: [
@@ -18,22 +34,56 @@ import { ChatModule } from './chat/chat.module';
       load: [configuration],
       validate: validateEnv,
     }),
+    ScheduleModule.forRoot(),
     PrismaModule,
+    StorageModule,
     AuthModule,
     LogosModule,
     DocumentsModule,
     ChatModule,
+    ReconciliationModule,
+    WebhooksModule,
+    OrganizationsModule,
+    AdminModule,
+    ProcessingTasksModule,
+    AuditModule,
+    FeedbackModule,
+    UsageModule,
   ],
   controllers: [],
   providers: [
+    {
+      provide: APP_GUARD,
+      useClass: AuditGuard,
+    },
     {
       provide: APP_GUARD,
       useClass: JwtAuthGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: ScopesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: RateLimitGuard,
+    },
     {
       provide: APP_GUARD,
       useClass: RolesGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: WorkspaceGuard,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: AuditInterceptor,
+    },
+    {
+      provide: APP_FILTER,
+      useClass: UsageLimitFilter,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,34 @@
+import { Controller, Get, Query, Res } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { Response } from 'express';
+import { AuditService } from './audit.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ListAuditLogsQueryDto } from './dto/audit-log.dto';
+
+@Controller('audit-logs')
+@Roles(Role.ADMIN)
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  @Get()
+  async findAll(@Query() query: ListAuditLogsQueryDto) {
+    return this.auditService.findAll(query);
+  }
+
+  // Same filters as the listing; pagination is ignored and every matching entry is exported
+  @Get('export')
+  async export(@Query() query: ListAuditLogsQueryDto, @Res() res: Response) {
+    res.attachment(`audit-log-${new Date().toISOString().slice(0, 10)}.csv`);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+
+    try {
+      await this.auditService.exportCsv(query, (chunk) => res.write(chunk));
+    } catch (error) {
+      // Headers are already sent, so the only way to signal failure is to abort the download
+      res.destroy(error);
+      return;
+    }
+
+    res.end();
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuditOutcome } from '@prisma/client';
+import { Request, Response } from 'express';
+import { AuditService } from './audit.service';
+import { AUDIT_KEY, AuditDetails, AuditMetadata } from './decorators/audit.decorator';
+
+// Registered ahead of every other guard, so requests they reject (an invalid refresh token, a missing role) are
+// audited as well. The entry is written from the final status code once the response is over and never delays it.
+// AuditInterceptor adds what only the handler knows through `request.audit`.
+@Injectable()
+export class AuditGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private auditService: AuditService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const audit = this.reflector.get<AuditMetadata>(AUDIT_KEY, context.getHandler());
+    if (!audit || context.getType() !== 'http') {
+      return true;
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request & { audit?: AuditDetails }>();
+    const response = http.getResponse<Response>();
+    const details: AuditDetails = {};
+    request.audit = details;
+
+    response.once('close', () => {
+      // A client that hangs up mid-response didn't get what it asked for, whatever the status says
+      const completed = response.writableFinished;
+      void this.record(
+        audit,
+        request,
+        completed && response.statusCode < 400 ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE,
+        response.statusCode,
+        completed ? details : { ...details, metadata: { ...details.metadata, error: 'Client closed the connection' } },
+      );
+    });
+
+    return true;
+  }
+
+  private async record(
+    audit: AuditMetadata,
+    request: Request,
+    outcome: AuditOutcome,
+    statusCode: number,
+    details: AuditDetails,
+  ) {
+    const user = request.user as { id?: string; email?: string } | undefined;
+    const targetId = details.targetId ?? (audit.targetParam ? request.params[audit.targetParam] : null);
+
+    await this.auditService.record({
+      action: audit.action,
+      outcome,
+      statusCode,
+      actorId: user?.id ?? null,
+      // Unauthenticated actions such as login only know who the caller claims to be
+      actorEmail: user?.email ?? request.body?.email ?? null,
+      targetType: targetId ? (audit.targetType ?? null) : null,
+      targetId: targetId ?? null,
+      ip: request.ip ?? null,
+      userAgent: request.get('user-agent') ?? null,
+      metadata: details.metadata,
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { Injectable, NestInterceptor, ExecutionContext, CallHandler } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { Observable, tap } from 'rxjs';
+import { AUDIT_KEY, AuditDetails, AuditMetadata } from './decorators/audit.decorator';
+
+// Adds the handler's result or error to the entry AuditGuard writes once the response is over
+@Injectable()
+export class AuditInterceptor implements NestInterceptor {
+  constructor(private reflector: Reflector) {}
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const audit = this.reflector.get<AuditMetadata>(AUDIT_KEY, context.getHandler());
+    const details = context.switchToHttp().getRequest<Request & { audit?: AuditDetails }>().audit;
+    if (!audit || !details) {
+      return next.handle();
+    }
+
+    return next.handle().pipe(
+      tap({
+        next: (result) => Object.assign(details, audit.fromResult?.(result)),
+        error: (error: Error) => {
+          details.metadata = { ...details.metadata, error: error.message };
+        },
+      }),
+    );
+  }
+}
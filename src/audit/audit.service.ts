@@ -0,0 +1,148 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AuditAction, AuditLog, AuditOutcome, Prisma } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { AuditLogPageDto, ListAuditLogsQueryDto } from './dto/audit-log.dto';
+
+export interface AuditEntry {
+  action: AuditAction;
+  outcome: AuditOutcome;
+  statusCode: number | null;
+  actorId: string | null;
+  actorEmail: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  ip: string | null;
+  userAgent: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 1000;
+
+const CSV_COLUMNS = [
+  'created_at',
+  'action',
+  'outcome',
+  'status_code',
+  'actor_id',
+  'actor_email',
+  'target_type',
+  'target_id',
+  'ip',
+  'user_agent',
+  'metadata',
+] as const;
+
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Never throws: a failed audit write is logged rather than failing the audited request
+  async record(entry: AuditEntry) {
+    try {
+      let actorId = entry.actorId;
+      if (!actorId && entry.actorEmail) {
+        const user = await this.prisma.user.findUnique({ where: { email: entry.actorEmail }, select: { id: true } });
+        actorId = user?.id ?? null;
+      }
+
+      await this.prisma.auditLog.create({
+        data: {
+          action: entry.action,
+          outcome: entry.outcome,
+          status_code: entry.statusCode,
+          actor_id: actorId,
+          actor_email: entry.actorEmail,
+          target_type: entry.targetType,
+          target_id: entry.targetId,
+          ip: entry.ip,
+          user_agent: entry.userAgent,
+          metadata: entry.metadata as Prisma.InputJsonValue | undefined,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`Failed to write audit entry for ${entry.action}: ${error.message}`);
+    }
+  }
+
+  async findAll(query: ListAuditLogsQueryDto): Promise<AuditLogPageDto> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const where = this.buildFilter(query);
+
+    const [items, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ created_at: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.auditLog.count({ where }),
+    ]);
+
+    return { items, total, page, limit };
+  }
+
+  // Stream matching entries as CSV, oldest first, without loading them all into memory
+  async exportCsv(query: ListAuditLogsQueryDto, write: (chunk: string) => void) {
+    const where = this.buildFilter(query);
+    write(CSV_COLUMNS.join(',') + '\n');
+
+    let cursor: string | undefined;
+    for (;;) {
+      const rows: AuditLog[] = await this.prisma.auditLog.findMany({
+        where,
+        orderBy: [{ created_at: 'asc' }, { id: 'asc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      if (rows.length) {
+        write(rows.map((row) => this.toCsvRow(row)).join(''));
+      }
+
+      if (rows.length < EXPORT_BATCH_SIZE) {
+        return;
+      }
+      cursor = rows[rows.length - 1].id;
+    }
+  }
+
+  private buildFilter(query: ListAuditLogsQueryDto): Prisma.AuditLogWhereInput {
+    return {
+      ...(query.action && { action: query.action }),
+      ...(query.outcome && { outcome: query.outcome }),
+      ...(query.actor_id && { actor_id: query.actor_id }),
+      ...(query.target_id && { target_id: query.target_id }),
+      ...((query.from || query.to) && {
+        created_at: {
+          ...(query.from && { gte: new Date(query.from) }),
+          ...(query.to && { lte: new Date(query.to) }),
+        },
+      }),
+    };
+  }
+
+  private toCsvRow(row: AuditLog): string {
+    const values = CSV_COLUMNS.map((column) => {
+      const value = row[column];
+      if (value === null || value === undefined) {
+        return '';
+      }
+      if (value instanceof Date) {
+        return value.toISOString();
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+
+    return values.map((value) => this.escapeCsv(value)).join(',') + '\n';
+  }
+
+  // Quote fields and defuse values a spreadsheet would evaluate as formulas (user agents are caller-controlled)
+  private escapeCsv(value: string): string {
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) || safe !== value ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+}
@@ -0,0 +1,24 @@
+import { SetMetadata } from '@nestjs/common';
+import { AuditAction } from '@prisma/client';
+
+export interface AuditDetails {
+  targetId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditOptions<T = unknown> {
+  targetType?: string;
+  // Route param holding the target id
+  targetParam?: string;
+  // Details only known once the handler has returned, e.g. the id of a created document
+  fromResult?: (result: T) => AuditDetails;
+}
+
+export interface AuditMetadata extends AuditOptions {
+  action: AuditAction;
+}
+
+export const AUDIT_KEY = 'audit';
+// Recorded by AuditGuard for every request, including those rejected by a guard
+export const Audit = <T>(action: AuditAction, options: AuditOptions<T> = {}) =>
+  SetMetadata(AUDIT_KEY, { action, ...options } satisfies AuditMetadata);
@@ -0,0 +1,49 @@
+import { IsEnum, IsInt, IsISO8601, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AuditAction, AuditLog, AuditOutcome } from '@prisma/client';
+
+export class ListAuditLogsQueryDto {
+  @IsOptional()
+  @IsEnum(AuditAction)
+  action?: AuditAction;
+
+  @IsOptional()
+  @IsEnum(AuditOutcome)
+  outcome?: AuditOutcome;
+
+  @IsOptional()
+  @IsString()
+  actor_id?: string;
+
+  @IsOptional()
+  @IsString()
+  target_id?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
+
+export class AuditLogPageDto {
+  items: AuditLog[];
+  total: number;
+  page: number;
+  limit: number;
+}
@@ -4,26 +4,33 @@ import { AuthService } from './auth.service';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { TokensDto } from './dto/tokens.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
 import { Public } from './decorators/public.decorator';
 import { CurrentUser } from './decorators/current-user.decorator';
+import { Audit } from '../audit/decorators/audit.decorator';
+import { AuditAction } from '@prisma/client';
 
 @Controller('auth')
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
   @Public()
+  @Audit(AuditAction.REGISTER)
   @Post('register')
   async register(@Body() registerDto: RegisterDto): Promise<TokensDto> {
     return this.authService.register(registerDto);
   }
 
   @Public()
+  @Audit(AuditAction.LOGIN)
   @Post('login')
   @HttpCode(HttpStatus.OK)
   async login(@Body() loginDto: LoginDto): Promise<TokensDto> {
     return this.authService.login(loginDto);
   }
 
+  @Audit(AuditAction.LOGOUT)
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   async logout(
@@ -35,9 +42,40 @@ export class AuthController {
 
   @Public()
   @UseGuards(AuthGuard('jwt-refresh'))
+  @Audit(AuditAction.TOKEN_REFRESH)
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
   async refresh(@CurrentUser('id') userId: string, @CurrentUser('tokenId') tokenId: string): Promise<TokensDto> {
     return this.authService.refreshTokens(userId, tokenId);
   }
+
+  @Public()
+  @Audit(AuditAction.EMAIL_VERIFY)
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  async verifyEmail(@Body() dto: VerifyEmailDto): Promise<{ message: string }> {
+    return this.authService.verifyEmail(dto.token);
+  }
+
+  @Post('verify-email/resend')
+  @HttpCode(HttpStatus.OK)
+  async resendEmailVerification(@CurrentUser('id') userId: string): Promise<{ message: string }> {
+    return this.authService.resendEmailVerification(userId);
+  }
+
+  @Public()
+  @Audit(AuditAction.PASSWORD_RESET_REQUEST)
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.OK)
+  async forgotPassword(@Body() dto: ForgotPasswordDto): Promise<{ message: string }> {
+    return this.authService.forgotPassword(dto.email);
+  }
+
+  @Public()
+  @Audit(AuditAction.PASSWORD_RESET)
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  async resetPassword(@Body() dto: ResetPasswordDto): Promise<{ message: string }> {
+    return this.authService.resetPassword(dto);
+  }
 }
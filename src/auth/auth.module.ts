@@ -3,14 +3,18 @@ import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { PersonalAccessTokensController } from './personal-access-tokens.controller';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { JwtRefreshStrategy } from './strategies/jwt-refresh.strategy';
+import { PersonalAccessTokenStrategy } from './strategies/personal-access-token.strategy';
 import { PrismaModule } from '../database/prisma.module';
+import { MailModule } from '../mail/mail.module';
 
 @Module({
-  imports: [PrismaModule, PassportModule, JwtModule.register({})],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy, JwtRefreshStrategy],
+  imports: [PrismaModule, PassportModule, JwtModule.register({}), MailModule],
+  controllers: [AuthController, PersonalAccessTokensController],
+  providers: [AuthService, PersonalAccessTokensService, JwtStrategy, JwtRefreshStrategy, PersonalAccessTokenStrategy],
   exports: [AuthService],
 })
 export class AuthModule {}
@@ -0,0 +1,283 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { AccountTokenPurpose, Role } from '@prisma/client';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthService } from './auth.service';
+import { PrismaService } from '../database/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { MailTransport } from '../mail/mail.transport';
+import { FileMailTransport } from '../mail/file-mail.transport';
+import { UsageLimitExceededException } from '../usage/usage-limit-exceeded.exception';
+import { createTable, createTransaction, InMemoryTable } from '../../test/utils/in-memory-prisma';
+
+interface StoredUser {
+  id: string;
+  email: string;
+  password_hash: string;
+  name: string | null;
+  role: Role;
+  disabled_at: Date | null;
+  email_verified_at: Date | null;
+}
+
+interface StoredAccountToken {
+  id: string;
+  user_id: string;
+  purpose: AccountTokenPurpose;
+  token_hash: string;
+  expires_at: Date;
+  created_at: Date;
+}
+
+interface StoredRefreshToken {
+  id: string;
+  user_id: string;
+  token: string;
+  expires_at: Date;
+}
+
+const createPrisma = () => {
+  const user: InMemoryTable<StoredUser> = createTable<StoredUser>({
+    create: (data) => ({
+      id: `user-${user.rows.length + 1}`,
+      email: '',
+      password_hash: '',
+      name: null,
+      role: Role.USER,
+      disabled_at: null,
+      email_verified_at: null,
+      ...data,
+    }),
+  });
+
+  const refreshToken: InMemoryTable<StoredRefreshToken> = createTable<StoredRefreshToken>({
+    create: (data) => ({
+      id: `refresh-${refreshToken.rows.length + 1}`,
+      user_id: '',
+      token: '',
+      expires_at: new Date(),
+      ...data,
+    }),
+  });
+
+  let tokenIds = 0;
+  const accountToken: InMemoryTable<StoredAccountToken> = createTable<StoredAccountToken>({
+    create: (data) => ({
+      id: `account-token-${++tokenIds}`,
+      user_id: '',
+      purpose: AccountTokenPurpose.EMAIL_VERIFICATION,
+      token_hash: '',
+      expires_at: new Date(),
+      created_at: new Date(),
+      ...data,
+    }),
+    relations: (token) => ({ user: user.rows.find((u) => u.id === token.user_id)! }),
+  });
+
+  return {
+    users: user.rows,
+    refreshTokens: refreshToken.rows,
+    accountTokens: accountToken.rows,
+    user,
+    refreshToken,
+    accountToken,
+    $transaction: createTransaction(() => ({ user, refreshToken, accountToken })),
+  };
+};
+
+describe('AuthService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let auth: AuthService;
+  let mailer: MailerService;
+  let mailDirectory: string;
+
+  // Messages written by the file transport, decoded from quoted-printable
+  const inbox = async () => {
+    const files = (await readdir(mailDirectory)).sort();
+    const messages = await Promise.all(files.map((file) => readFile(join(mailDirectory, file), 'utf8')));
+    return messages.map((raw) =>
+      raw.replace(/=\r?\n/g, '').replace(/=([0-9A-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    );
+  };
+
+  const tokenFrom = (message: string) => message.match(/\?token=([\w-]+)/)![1];
+
+  // Emails linking to `path`; reset emails go out after forgotPassword has answered, so wait for `count` of them
+  const emailsFor = async (path: '/verify-email' | '/reset-password', count = 1) => {
+    let messages: string[] = [];
+    for (let i = 0; i < 50; i++) {
+      messages = (await inbox()).filter((message) => message.includes(`${path}?token=`));
+      if (messages.length >= count) {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    return messages;
+  };
+
+  // Token from the latest email linking to `path`
+  const tokenFor = async (path: '/verify-email' | '/reset-password') => tokenFrom((await emailsFor(path)).pop()!);
+
+  const register = () => auth.register({ email: 'user@example.com', password: 'old-password', name: 'User' });
+
+  beforeEach(async () => {
+    prisma = createPrisma();
+    mailDirectory = await mkdtemp(join(tmpdir(), 'atlas-mail-'));
+
+    const config: Record<string, string | number> = {
+      'jwt.accessTokenSecret': 'test-access-secret',
+      'jwt.refreshTokenSecret': 'test-refresh-secret',
+      'auth.emailVerificationTtlHours': 48,
+      'auth.passwordResetTtlMinutes': 30,
+      'mail.appUrl': 'https://app.example.com',
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        MailerService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: JwtService, useValue: new JwtService() },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: MailTransport, useValue: new FileMailTransport({ directory: mailDirectory }) },
+      ],
+    }).compile();
+
+    auth = module.get(AuthService);
+    mailer = module.get(MailerService);
+  });
+
+  afterEach(async () => {
+    await rm(mailDirectory, { recursive: true, force: true });
+  });
+
+  describe('email verification', () => {
+    it('emails a link on registration that verifies the address once', async () => {
+      await register();
+
+      const [message] = await inbox();
+      expect(message).toContain('To: user@example.com');
+      expect(message).toContain('https://app.example.com/verify-email?token=');
+
+      await auth.verifyEmail(tokenFrom(message));
+      expect(prisma.users[0].email_verified_at).toBeInstanceOf(Date);
+
+      await expect(auth.verifyEmail(tokenFrom(message))).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('stores only a hash of the token', async () => {
+      await register();
+
+      const token = await tokenFor('/verify-email');
+      expect(prisma.accountTokens).toHaveLength(1);
+      expect(prisma.accountTokens[0].token_hash).not.toContain(token);
+    });
+
+    it('refuses to resend to a verified address', async () => {
+      await register();
+      await auth.verifyEmail(await tokenFor('/verify-email'));
+
+      await expect(auth.resendEmailVerification(prisma.users[0].id)).rejects.toThrow('Email is already verified');
+    });
+
+    it('tells a client resending too soon when to retry', async () => {
+      await register();
+
+      const error = await auth.resendEmailVerification(prisma.users[0].id).catch((thrown: unknown) => thrown);
+
+      expect(error).toBeInstanceOf(UsageLimitExceededException);
+      expect(error).toMatchObject({ limit: 'verification_emails_per_minute' });
+      expect((error as UsageLimitExceededException).retryAfter).toBeGreaterThan(0);
+      expect((error as UsageLimitExceededException).retryAfter).toBeLessThanOrEqual(60);
+    });
+  });
+
+  describe('password reset', () => {
+    it('answers the same for unknown emails and sends nothing', async () => {
+      const response = await auth.forgotPassword('nobody@example.com');
+
+      expect(response.message).toContain('If an account exists');
+      expect(await inbox()).toHaveLength(0);
+    });
+
+    it('answers without waiting for the email', async () => {
+      await register();
+      jest.spyOn(mailer, 'sendPasswordReset').mockReturnValue(new Promise(() => undefined));
+
+      await expect(auth.forgotPassword('user@example.com')).resolves.toHaveProperty('message');
+    });
+
+    it('sets the new password and revokes every refresh token', async () => {
+      await register();
+      await auth.login({ email: 'user@example.com', password: 'old-password' });
+      expect(prisma.refreshTokens).toHaveLength(2);
+
+      await auth.forgotPassword('user@example.com');
+      await auth.resetPassword({ token: await tokenFor('/reset-password'), password: 'new-password' });
+
+      expect(prisma.refreshTokens).toHaveLength(0);
+      await expect(auth.login({ email: 'user@example.com', password: 'old-password' })).rejects.toThrow(
+        'Invalid credentials',
+      );
+      await expect(auth.login({ email: 'user@example.com', password: 'new-password' })).resolves.toHaveProperty(
+        'access_token',
+      );
+    });
+
+    it('accepts a reset token only once', async () => {
+      await register();
+      await auth.forgotPassword('user@example.com');
+      const token = await tokenFor('/reset-password');
+
+      await auth.resetPassword({ token, password: 'new-password' });
+
+      await expect(auth.resetPassword({ token, password: 'other-password' })).rejects.toThrow(
+        'Invalid or expired token',
+      );
+    });
+
+    it('rejects an expired token', async () => {
+      await register();
+      await auth.forgotPassword('user@example.com');
+      const token = await tokenFor('/reset-password');
+      prisma.accountTokens.find((t) => t.purpose === AccountTokenPurpose.PASSWORD_RESET)!.expires_at = new Date(0);
+
+      await expect(auth.resetPassword({ token, password: 'new-password' })).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('does not accept a verification token', async () => {
+      await register();
+      const token = await tokenFor('/verify-email');
+
+      await expect(auth.resetPassword({ token, password: 'new-password' })).rejects.toThrow('Invalid or expired token');
+    });
+
+    it('keeps the token when the reset fails, and refuses disabled accounts', async () => {
+      await register();
+      await auth.forgotPassword('user@example.com');
+      const token = await tokenFor('/reset-password');
+
+      prisma.refreshToken.deleteMany.mockRejectedValueOnce(new Error('Connection lost'));
+      await expect(auth.resetPassword({ token, password: 'new-password' })).rejects.toThrow('Connection lost');
+      expect(prisma.accountTokens).toHaveLength(2);
+
+      prisma.users[0].disabled_at = new Date();
+      await expect(auth.resetPassword({ token, password: 'new-password' })).rejects.toThrow('Account is disabled');
+
+      prisma.users[0].disabled_at = null;
+      await expect(auth.resetPassword({ token, password: 'new-password' })).resolves.toHaveProperty('message');
+    });
+
+    it('sends at most one email a minute', async () => {
+      await register();
+      await auth.forgotPassword('user@example.com');
+      await emailsFor('/reset-password');
+      await auth.forgotPassword('user@example.com');
+
+      expect(await emailsFor('/reset-password', 2)).toHaveLength(1);
+    });
+  });
+});
@@ -1,18 +1,32 @@
-import { Injectable, UnauthorizedException, ConflictException, BadRequestException } from '@nestjs/common';
+import { Injectable, UnauthorizedException, ConflictException, BadRequestException, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
+import { AccountTokenPurpose, Prisma, User } from '@prisma/client';
 import * as argon2 from 'argon2';
+import { createHash, randomBytes } from 'crypto';
 import { PrismaService } from '../database/prisma.service';
+import { MailerService } from '../mail/mailer.service';
+import { UsageLimitExceededException } from '../usage/usage-limit-exceeded.exception';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { TokensDto } from './dto/tokens.dto';
+import { ResetPasswordDto } from './dto/password-reset.dto';
+
+// A new verification or reset email is only sent this long after the previous one
+const ACCOUNT_EMAIL_COOLDOWN_MS = 60_000;
+
+// Account tokens are 32 random bytes, so an unsalted hash is enough to look them up by
+const hashAccountToken = (token: string) => createHash('sha256').update(token).digest('hex');
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private prisma: PrismaService,
     private jwtService: JwtService,
     private configService: ConfigService,
+    private mailerService: MailerService,
   ) {}
 
   async register(registerDto: RegisterDto): Promise<TokensDto> {
@@ -39,6 +53,13 @@ export class AuthService {
       },
     });
 
+    // The account works right away; a mail failure only means the user has to ask for another link
+    try {
+      await this.sendEmailVerification(user);
+    } catch (error) {
+      this.logger.warn(`Failed to send verification email to user ${user.id}: ${error.message}`);
+    }
+
     // Generate tokens
     return this.generateTokens(user.id, user.email, user.role);
   }
@@ -62,6 +83,10 @@ export class AuthService {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    if (user.disabled_at) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
     // Generate tokens
     return this.generateTokens(user.id, user.email, user.role);
   }
@@ -75,6 +100,81 @@ export class AuthService {
     return { message: 'Logged out successfully' };
   }
 
+  async resendEmailVerification(userId: string): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    if (user.email_verified_at) {
+      throw new BadRequestException('Email is already verified');
+    }
+
+    const retryAfter = await this.cooldownRemaining(user.id, AccountTokenPurpose.EMAIL_VERIFICATION);
+    if (retryAfter) {
+      throw new UsageLimitExceededException(
+        'verification_emails_per_minute',
+        'A verification email was sent less than a minute ago',
+        retryAfter,
+      );
+    }
+
+    await this.sendEmailVerification(user);
+    return { message: 'Verification email sent' };
+  }
+
+  async verifyEmail(token: string): Promise<{ message: string }> {
+    const tokenHash = hashAccountToken(token);
+
+    await this.prisma.$transaction(async (tx) => {
+      const user = await this.consumeAccountToken(tx, tokenHash, AccountTokenPurpose.EMAIL_VERIFICATION);
+
+      if (!user.email_verified_at) {
+        await tx.user.update({ where: { id: user.id }, data: { email_verified_at: new Date() } });
+      }
+    });
+
+    return { message: 'Email verified' };
+  }
+
+  // Answers the same whether or not the account exists, so it can't be used to discover registered emails. Only the
+  // lookup is awaited; the rest happens after the response so that it takes as long either way.
+  async forgotPassword(email: string): Promise<{ message: string }> {
+    const user = await this.prisma.user.findUnique({ where: { email } });
+
+    if (user && !user.disabled_at) {
+      void this.sendPasswordReset(user);
+    }
+
+    return { message: 'If an account exists for this email, a password reset link has been sent' };
+  }
+
+  // Signs the user out everywhere: every refresh token is revoked, so only the new password gets back in.
+  // The token is only used up if the password is actually changed.
+  async resetPassword({ token, password }: ResetPasswordDto): Promise<{ message: string }> {
+    const tokenHash = hashAccountToken(token);
+    const password_hash = await argon2.hash(password);
+
+    await this.prisma.$transaction(async (tx) => {
+      const user = await this.consumeAccountToken(tx, tokenHash, AccountTokenPurpose.PASSWORD_RESET);
+
+      if (user.disabled_at) {
+        throw new UnauthorizedException('Account is disabled');
+      }
+
+      await tx.user.update({
+        where: { id: user.id },
+        // Following the emailed link proves the address as well
+        data: { password_hash, email_verified_at: user.email_verified_at ?? new Date() },
+      });
+      await tx.refreshToken.deleteMany({ where: { user_id: user.id } });
+      await tx.accountToken.deleteMany({ where: { user_id: user.id, purpose: AccountTokenPurpose.PASSWORD_RESET } });
+    });
+
+    return { message: 'Password has been reset' };
+  }
+
   async refreshTokens(userId: string, oldTokenId: string): Promise<TokensDto> {
     // Get user
     const user = await this.prisma.user.findUnique({
@@ -85,6 +185,10 @@ export class AuthService {
       throw new UnauthorizedException('User not found');
     }
 
+    if (user.disabled_at) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
     // Delete the old refresh token (rotation)
     await this.prisma.refreshToken.delete({
       where: { id: oldTokenId },
@@ -94,6 +198,85 @@ export class AuthService {
     return this.generateTokens(user.id, user.email, user.role);
   }
 
+  private async sendEmailVerification(user: User) {
+    const ttlHours = this.configService.get<number>('auth.emailVerificationTtlHours') ?? 48;
+    const { token, expiresAt } = await this.issueAccountToken(
+      user.id,
+      AccountTokenPurpose.EMAIL_VERIFICATION,
+      ttlHours * 60 * 60 * 1000,
+    );
+    await this.mailerService.sendEmailVerification(user.email, token, expiresAt);
+  }
+
+  // Never throws: it runs after forgotPassword has answered
+  private async sendPasswordReset(user: User) {
+    try {
+      if (await this.cooldownRemaining(user.id, AccountTokenPurpose.PASSWORD_RESET)) {
+        return;
+      }
+
+      const ttlMinutes = this.configService.get<number>('auth.passwordResetTtlMinutes') ?? 30;
+      const { token, expiresAt } = await this.issueAccountToken(
+        user.id,
+        AccountTokenPurpose.PASSWORD_RESET,
+        ttlMinutes * 60 * 1000,
+      );
+      await this.mailerService.sendPasswordReset(user.email, token, expiresAt);
+    } catch (error) {
+      this.logger.warn(`Failed to send password reset email to user ${user.id}: ${error.message}`);
+    }
+  }
+
+  // Replaces any earlier token for the same purpose, so only the latest link works
+  private async issueAccountToken(userId: string, purpose: AccountTokenPurpose, ttlMs: number) {
+    const token = randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + ttlMs);
+
+    await this.prisma.$transaction([
+      this.prisma.accountToken.deleteMany({ where: { user_id: userId, purpose } }),
+      this.prisma.accountToken.create({
+        data: { user_id: userId, purpose, token_hash: hashAccountToken(token), expires_at: expiresAt },
+      }),
+    ]);
+
+    return { token, expiresAt };
+  }
+
+  // Deleting the row is what makes the token single-use: of two concurrent requests only one deletes it. Run inside
+  // the transaction that acts on the token, so it is only used up if that commits.
+  private async consumeAccountToken(
+    tx: Prisma.TransactionClient,
+    tokenHash: string,
+    purpose: AccountTokenPurpose,
+  ): Promise<User> {
+    const record = await tx.accountToken.findUnique({
+      where: { token_hash: tokenHash },
+      include: { user: true },
+    });
+
+    if (!record || record.purpose !== purpose) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    const { count } = await tx.accountToken.deleteMany({ where: { id: record.id } });
+
+    if (count === 0 || record.expires_at < new Date()) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return record.user;
+  }
+
+  // Seconds until another email of this kind may be sent, or 0 when one may be sent now
+  private async cooldownRemaining(userId: string, purpose: AccountTokenPurpose): Promise<number> {
+    const latest = await this.prisma.accountToken.findFirst({
+      where: { user_id: userId, purpose, created_at: { gt: new Date(Date.now() - ACCOUNT_EMAIL_COOLDOWN_MS) } },
+      orderBy: { created_at: 'desc' },
+      select: { created_at: true },
+    });
+    return latest ? Math.ceil((latest.created_at.getTime() + ACCOUNT_EMAIL_COOLDOWN_MS - Date.now()) / 1000) : 0;
+  }
+
   private async generateTokens(userId: string, email: string, role: string): Promise<TokensDto> {
     const [accessToken, refreshToken] = await Promise.all([
       this.generateAccessToken(userId, email, role),
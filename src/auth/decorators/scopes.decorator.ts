@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ACCESS_TOKEN_SCOPES = ['documents:read', 'documents:write', 'chat'] as const;
+export type AccessTokenScope = (typeof ACCESS_TOKEN_SCOPES)[number];
+
+export const SCOPES_KEY = 'scopes';
+// Scopes a personal access token needs for the route; routes without them can't be called with a token at all
+export const Scopes = (...scopes: AccessTokenScope[]) => SetMetadata(SCOPES_KEY, scopes);
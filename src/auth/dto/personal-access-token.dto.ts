@@ -0,0 +1,49 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ACCESS_TOKEN_SCOPES, AccessTokenScope } from '../decorators/scopes.decorator';
+
+export class CreatePersonalAccessTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsIn(ACCESS_TOKEN_SCOPES, { each: true })
+  scopes: AccessTokenScope[];
+
+  // Omit for a token that never expires
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  expires_in_days?: number;
+}
+
+export class PersonalAccessTokenResponseDto {
+  id: string;
+  name: string;
+  token_prefix: string;
+  scopes: string[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  created_at: Date;
+}
+
+// The only response that carries the token itself
+export class CreatedPersonalAccessTokenResponseDto extends PersonalAccessTokenResponseDto {
+  token: string;
+}
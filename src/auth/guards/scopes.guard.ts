@@ -0,0 +1,33 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AccessTokenScope, SCOPES_KEY } from '../decorators/scopes.decorator';
+
+// Limits callers authenticated with a personal access token to the routes its scopes cover. JWT sessions are not
+// scoped and pass through.
+@Injectable()
+export class ScopesGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest();
+    if (!user?.scopes) {
+      return true;
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<AccessTokenScope[]>(SCOPES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (!requiredScopes) {
+      throw new ForbiddenException('This endpoint cannot be used with a personal access token');
+    }
+
+    const missing = requiredScopes.filter((scope) => !user.scopes.includes(scope));
+    if (missing.length > 0) {
+      throw new ForbiddenException(`Token is missing the ${missing.join(', ')} scope`);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,40 @@
+import { Body, Controller, Delete, Get, Param, ParseUUIDPipe, Post } from '@nestjs/common';
+import { AuditAction } from '@prisma/client';
+import { PersonalAccessTokensService } from './personal-access-tokens.service';
+import {
+  CreatedPersonalAccessTokenResponseDto,
+  CreatePersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from './dto/personal-access-token.dto';
+import { CurrentUser } from './decorators/current-user.decorator';
+import { Audit } from '../audit/decorators/audit.decorator';
+
+// Token management has no scope, so it is only reachable from a logged-in session
+@Controller('auth/tokens')
+export class PersonalAccessTokensController {
+  constructor(private readonly personalAccessTokensService: PersonalAccessTokensService) {}
+
+  // The response is the only time the token is shown
+  @Post()
+  @Audit(AuditAction.ACCESS_TOKEN_CREATE, {
+    targetType: 'access_token',
+    fromResult: ({ id, scopes }: CreatedPersonalAccessTokenResponseDto) => ({ targetId: id, metadata: { scopes } }),
+  })
+  async create(
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreatePersonalAccessTokenDto,
+  ): Promise<CreatedPersonalAccessTokenResponseDto> {
+    return this.personalAccessTokensService.create(userId, dto);
+  }
+
+  @Get()
+  async findAll(@CurrentUser('id') userId: string): Promise<PersonalAccessTokenResponseDto[]> {
+    return this.personalAccessTokensService.findAll(userId);
+  }
+
+  @Delete(':tokenId')
+  @Audit(AuditAction.ACCESS_TOKEN_REVOKE, { targetType: 'access_token', targetParam: 'tokenId' })
+  async revoke(@CurrentUser('id') userId: string, @Param('tokenId', ParseUUIDPipe) tokenId: string) {
+    return this.personalAccessTokensService.revoke(userId, tokenId);
+  }
+}
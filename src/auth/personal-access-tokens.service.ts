@@ -0,0 +1,76 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import {
+  CreatedPersonalAccessTokenResponseDto,
+  CreatePersonalAccessTokenDto,
+  PersonalAccessTokenResponseDto,
+} from './dto/personal-access-token.dto';
+
+// Lets the strategy tell tokens from JWTs, and secret scanners spot leaked ones
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'atlas_pat_';
+
+// Characters kept in plain text so users can tell their tokens apart
+const VISIBLE_PREFIX_LENGTH = PERSONAL_ACCESS_TOKEN_PREFIX.length + 6;
+
+const MAX_TOKENS_PER_USER = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The secret is 32 random bytes, so a fast unsalted hash is enough and keeps lookups to a single indexed read
+export const hashAccessToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const TOKEN_SELECT = {
+  id: true,
+  name: true,
+  token_prefix: true,
+  scopes: true,
+  expires_at: true,
+  last_used_at: true,
+  created_at: true,
+} as const;
+
+@Injectable()
+export class PersonalAccessTokensService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(userId: string, dto: CreatePersonalAccessTokenDto): Promise<CreatedPersonalAccessTokenResponseDto> {
+    const count = await this.prisma.personalAccessToken.count({ where: { user_id: userId } });
+    if (count >= MAX_TOKENS_PER_USER) {
+      throw new BadRequestException(`You can have at most ${MAX_TOKENS_PER_USER} access tokens`);
+    }
+
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+    const created = await this.prisma.personalAccessToken.create({
+      data: {
+        user_id: userId,
+        name: dto.name,
+        token_hash: hashAccessToken(token),
+        token_prefix: token.slice(0, VISIBLE_PREFIX_LENGTH),
+        scopes: dto.scopes,
+        expires_at: dto.expires_in_days ? new Date(Date.now() + dto.expires_in_days * DAY_MS) : null,
+      },
+      select: TOKEN_SELECT,
+    });
+
+    return { ...created, token };
+  }
+
+  async findAll(userId: string): Promise<PersonalAccessTokenResponseDto[]> {
+    return this.prisma.personalAccessToken.findMany({
+      where: { user_id: userId },
+      orderBy: { created_at: 'desc' },
+      select: TOKEN_SELECT,
+    });
+  }
+
+  async revoke(userId: string, tokenId: string): Promise<{ message: string }> {
+    const { count } = await this.prisma.personalAccessToken.deleteMany({ where: { id: tokenId, user_id: userId } });
+
+    if (count === 0) {
+      throw new NotFoundException('Access token not found');
+    }
+
+    return { message: 'Access token revoked' };
+  }
+}
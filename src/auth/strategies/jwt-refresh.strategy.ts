@@ -50,6 +50,10 @@ export class JwtRefreshStrategy extends PassportStrategy(Strategy, 'jwt-refresh'
       throw new UnauthorizedException('Refresh token expired');
     }
 
+    if (storedToken.user.disabled_at) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
     return {
       id: storedToken.user.id,
       email: storedToken.user.email,
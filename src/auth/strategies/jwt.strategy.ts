@@ -31,6 +31,7 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
         email: true,
         name: true,
         role: true,
+        disabled_at: true,
       },
     });
 
@@ -38,6 +39,10 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
       throw new UnauthorizedException('User not found');
     }
 
+    if (user.disabled_at) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
     return user;
   }
 }
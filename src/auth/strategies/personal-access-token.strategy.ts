@@ -0,0 +1,55 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Request } from 'express';
+import { Strategy } from 'passport-custom';
+import { ExtractJwt } from 'passport-jwt';
+import { PrismaService } from '../../database/prisma.service';
+import { hashAccessToken, PERSONAL_ACCESS_TOKEN_PREFIX } from '../personal-access-tokens.service';
+
+// last_used_at is only written when it is older than this, so busy scripts don't update the row on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+// Tokens are only read from the Authorization header, never from the query string or body, so they stay out of
+// URLs and logs
+const extractToken = ExtractJwt.fromAuthHeaderAsBearerToken();
+
+@Injectable()
+export class PersonalAccessTokenStrategy extends PassportStrategy(Strategy, 'personal-access-token') {
+  constructor(private prisma: PrismaService) {
+    super();
+  }
+
+  async validate(req: Request) {
+    // Anything else is a JWT that the jwt strategy already refused
+    const token = extractToken(req);
+    if (!token?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return false;
+    }
+
+    const accessToken = await this.prisma.personalAccessToken.findUnique({
+      where: { token_hash: hashAccessToken(token) },
+      include: {
+        user: { select: { id: true, email: true, name: true, role: true, disabled_at: true } },
+      },
+    });
+
+    if (!accessToken) {
+      throw new UnauthorizedException('Invalid access token');
+    }
+
+    const now = new Date();
+    if (accessToken.expires_at && accessToken.expires_at < now) {
+      throw new UnauthorizedException('Access token expired');
+    }
+
+    if (accessToken.user.disabled_at) {
+      throw new UnauthorizedException('Account is disabled');
+    }
+
+    if (!accessToken.last_used_at || now.getTime() - accessToken.last_used_at.getTime() >= LAST_USED_RESOLUTION_MS) {
+      await this.prisma.personalAccessToken.update({ where: { id: accessToken.id }, data: { last_used_at: now } });
+    }
+
+    return { ...accessToken.user, scopes: accessToken.scopes, accessTokenId: accessToken.id };
+  }
+}
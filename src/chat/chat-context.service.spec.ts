@@ -0,0 +1,235 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ChatMessageStatus, DocumentStatus } from '@prisma/client';
+import { ChatContextService, ConversationTurn, estimateTokens } from './chat-context.service';
+import { ChatService } from './chat.service';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService } from '../logos/logos.service';
+import { DocumentAccessService } from '../access/document-access.service';
+import { UsageService } from '../usage/usage.service';
+import { ChatPrisma, createChatPrisma } from '../../test/utils/in-memory-chat';
+
+const BUDGET = 1000;
+const SUMMARY_TRIGGER = 300;
+const SUMMARY_MAX = 200;
+
+const totalTokens = (history: ConversationTurn[]) => history.reduce((sum, turn) => sum + estimateTokens(turn), 0);
+
+describe('ChatContextService', () => {
+  let prisma: ChatPrisma;
+  let logos: { chatStream: jest.Mock; summarizeConversation: jest.Mock };
+  let context: ChatContextService;
+  let chat: ChatService;
+
+  // Appends turns to the active branch
+  const addMessages = async (count: number, length: number) => {
+    for (let i = 0; i < count; i++) {
+      const message = await prisma.chatMessage.create({
+        data: {
+          session_id: 'session-1',
+          parent_id: session().active_message_id,
+          role: i % 2 ? 'assistant' : 'user',
+          content: `${i} `.padEnd(length, 'x'),
+          status: ChatMessageStatus.COMPLETE,
+        },
+      });
+      session().active_message_id = message.id;
+    }
+  };
+
+  const session = () => prisma.sessions[0];
+
+  const ask = async (stream: AsyncGenerator<{ event: string }>) => {
+    for await (const event of stream) {
+      expect(event.event).not.toBe('error');
+    }
+  };
+
+  beforeEach(async () => {
+    prisma = createChatPrisma();
+    await prisma.chatSession.create({ data: { title: 'Chat' } });
+
+    logos = {
+      // Answers every question with a long reply, so history grows quickly
+      chatStream: jest.fn(async function* () {
+        yield { content: 'y'.repeat(800) };
+      }),
+      summarizeConversation: jest.fn(async (_previous: string | null, turns: ConversationTurn[]) =>
+        `summary of ${turns.length} turns `.padEnd(SUMMARY_MAX * 8, 's'),
+      ),
+    };
+
+    const config: Record<string, number> = {
+      'chat.contextTokenBudget': BUDGET,
+      'chat.summaryTriggerTokens': SUMMARY_TRIGGER,
+      'chat.summaryMaxTokens': SUMMARY_MAX,
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        ChatContextService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LogosService, useValue: logos },
+        { provide: UsageService, useValue: { reserveChatMessage: jest.fn() } },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        {
+          provide: DocumentAccessService,
+          useValue: {
+            authorize: jest.fn(async () => ({
+              document: {
+                id: 'document-1',
+                filename: 'contract.pdf',
+                status: DocumentStatus.COMPLETED,
+                logos_id: 'logos-1',
+              },
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    context = module.get(ChatContextService);
+    chat = module.get(ChatService);
+  });
+
+  describe('buildHistory', () => {
+    it('sends the whole conversation while it fits the budget', async () => {
+      await addMessages(6, 100);
+
+      const history = await context.buildHistory(session(), session().active_message_id);
+
+      expect(history.map((turn) => turn.content)).toEqual(prisma.messages.map((m) => m.content));
+    });
+
+    it('keeps only the most recent turns that fit, in chronological order', async () => {
+      await addMessages(500, 400);
+
+      const history = await context.buildHistory(session(), session().active_message_id);
+
+      expect(totalTokens(history)).toBeLessThanOrEqual(BUDGET);
+      expect(history.length).toBeGreaterThan(0);
+      expect(history.map((turn) => turn.content)).toEqual(prisma.messages.slice(-history.length).map((m) => m.content));
+    });
+
+    it('leaves out interrupted and failed answers', async () => {
+      await addMessages(2, 100);
+      prisma.messages[1].status = ChatMessageStatus.INCOMPLETE;
+
+      const history = await context.buildHistory(session(), session().active_message_id);
+
+      expect(history).toEqual([{ role: 'user', content: prisma.messages[0].content }]);
+    });
+
+    it('drops a single turn larger than the whole budget', async () => {
+      await addMessages(1, BUDGET * 10);
+
+      expect(await context.buildHistory(session(), session().active_message_id)).toEqual([]);
+    });
+
+    it('leads with the stored summary and cuts an oversized one', async () => {
+      await addMessages(100, 400);
+      Object.assign(session(), { summary: 'z'.repeat(BUDGET * 10), summarized_message_id: prisma.messages[49].id });
+
+      const history = await context.buildHistory(session(), session().active_message_id);
+
+      expect(history[0].role).toBe('system');
+      expect(history[0].content.length).toBeLessThanOrEqual(
+        'Summary of the earlier conversation:\n'.length + SUMMARY_MAX * 4,
+      );
+      expect(totalTokens(history)).toBeLessThanOrEqual(BUDGET);
+    });
+
+    it('follows only the branch leading to the given message', async () => {
+      await addMessages(4, 100);
+      const fork = await prisma.chatMessage.create({
+        data: { session_id: 'session-1', parent_id: 'message-2', role: 'user', content: 'edited', status: 'COMPLETE' },
+      });
+
+      const history = await context.buildHistory(session(), fork.id);
+
+      expect(history.map((turn) => turn.content)).toEqual([
+        prisma.messages[0].content,
+        prisma.messages[1].content,
+        'edited',
+      ]);
+    });
+
+    it('ignores a summary of another branch', async () => {
+      await addMessages(4, 100);
+      Object.assign(session(), { summary: 'about the other branch', summarized_message_id: 'message-3' });
+
+      const history = await context.buildHistory(session(), 'message-2');
+
+      expect(history.map((turn) => turn.role)).toEqual(['user', 'assistant']);
+    });
+  });
+
+  describe('refreshSummary', () => {
+    it('does nothing until enough turns fall out of the window', async () => {
+      await addMessages(4, 100);
+
+      await context.refreshSummary('session-1');
+
+      expect(logos.summarizeConversation).not.toHaveBeenCalled();
+    });
+
+    it('folds turns outside the window into the summary, one budget at a time', async () => {
+      await addMessages(200, 400);
+
+      await context.refreshSummary('session-1');
+
+      const [, turns, maxTokens] = logos.summarizeConversation.mock.calls[0];
+      expect(totalTokens(turns)).toBeLessThanOrEqual(BUDGET);
+      expect(maxTokens).toBe(SUMMARY_MAX);
+      expect(session().summarized_message_id).toEqual(prisma.messages[turns.length - 1].id);
+      expect(session().summary!.length).toBeLessThanOrEqual(SUMMARY_MAX * 4);
+    });
+
+    it('folds a turn that just fell out of the window, topped up to the trigger from the window', async () => {
+      // Ten turns of 104 tokens: nine fit the budget, so only the first is outside the window
+      await addMessages(10, 400);
+
+      await context.refreshSummary('session-1');
+
+      const [, turns] = logos.summarizeConversation.mock.calls[0];
+      expect(turns.map((turn: ConversationTurn) => turn.content)).toEqual(
+        prisma.messages.slice(0, 3).map((m) => m.content),
+      );
+      expect(session().summarized_message_id).toBe(prisma.messages[2].id);
+
+      const history = await context.buildHistory(session(), session().active_message_id);
+      expect(history[0].role).toBe('system');
+      expect(history.slice(1).map((turn) => turn.content)).toEqual(prisma.messages.slice(3).map((m) => m.content));
+    });
+
+    it('never throws when Logos fails', async () => {
+      await addMessages(200, 400);
+      logos.summarizeConversation.mockRejectedValueOnce(new Error('Logos is down'));
+
+      await expect(context.refreshSummary('session-1')).resolves.toBeUndefined();
+      expect(session().summary).toBeNull();
+    });
+  });
+
+  describe('payload sent to Logos', () => {
+    it('stays within the budget however long the conversation grows', async () => {
+      for (let turn = 0; turn < 60; turn++) {
+        await ask(chat.streamChat('user-1', { session_id: 'session-1', message: `question ${turn}` }));
+        // Let the background summary refresh settle before the next turn
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      const histories: ConversationTurn[][] = logos.chatStream.mock.calls.map(([, , history]) => history);
+      expect(histories).toHaveLength(60);
+      for (const history of histories) {
+        expect(totalTokens(history)).toBeLessThanOrEqual(BUDGET);
+      }
+
+      // Long conversations keep earlier context through the rolling summary
+      expect(logos.summarizeConversation).toHaveBeenCalled();
+      expect(histories[histories.length - 1][0].role).toBe('system');
+      expect(prisma.messages).toHaveLength(120);
+    });
+  });
+});
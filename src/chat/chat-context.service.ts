@@ -0,0 +1,213 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ChatMessageStatus, ChatSession } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService } from '../logos/logos.service';
+
+export interface ConversationTurn {
+  role: string;
+  content: string;
+}
+
+// Rough token estimate (about four characters per token) plus a small per-message overhead
+const CHARS_PER_TOKEN = 4;
+const TOKENS_PER_TURN = 4;
+
+const SUMMARY_PREFIX = 'Summary of the earlier conversation:\n';
+
+// Upper bound on stored messages read when filling the window, whatever their size
+const WINDOW_MAX_MESSAGES = 100;
+
+export const estimateTokens = (turn: ConversationTurn) =>
+  Math.ceil(turn.content.length / CHARS_PER_TOKEN) + TOKENS_PER_TURN;
+
+// A message's place in the conversation tree
+export interface MessageLink {
+  id: string;
+  parent_id: string | null;
+}
+
+type SessionContext = Pick<ChatSession, 'id' | 'summary' | 'summarized_message_id'>;
+
+@Injectable()
+export class ChatContextService {
+  private readonly logger = new Logger(ChatContextService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logosService: LogosService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // History sent to Logos for the branch ending at `leafId`: the rolling summary, then the most recent complete
+  // turns that fit in the token budget
+  async buildHistory(session: SessionContext, leafId: string | null): Promise<ConversationTurn[]> {
+    const { summary, window } = await this.selectContext(session, leafId);
+    const turns = window.map(({ role, content }) => ({ role, content }));
+    return summary ? [summary, ...turns] : turns;
+  }
+
+  // Fold complete turns of the active branch that fell out of the window into the session summary. Runs after a
+  // turn is answered; failures only delay summarizing and are never surfaced to the caller.
+  async refreshSummary(sessionId: string): Promise<void> {
+    try {
+      const session = await this.prisma.chatSession.findUnique({
+        where: { id: sessionId },
+        select: { id: true, summary: true, summarized_message_id: true, active_message_id: true },
+      });
+      if (!session) {
+        return;
+      }
+
+      const { summary, window, pending } = await this.selectContext(session, session.active_message_id);
+      const outside = new Set(window.length > 0 ? pending.slice(0, pending.indexOf(window[0].id)) : pending);
+
+      const candidates = await this.prisma.chatMessage.findMany({
+        where: { id: { in: pending }, status: ChatMessageStatus.COMPLETE },
+        orderBy: { created_at: 'asc' },
+        take: WINDOW_MAX_MESSAGES,
+        select: { id: true, role: true, content: true },
+      });
+
+      // Nothing is summarized while every turn still fits in the window
+      if (!candidates.some((message) => outside.has(message.id))) {
+        return;
+      }
+
+      // Every turn that fell out of the window is folded in, so none is lost, topped up with the oldest turns of
+      // the window until the batch reaches the trigger, so summarizing stays batched. One budget's worth per run.
+      const batch: typeof candidates = [];
+      let tokens = 0;
+      for (const message of candidates) {
+        if (!outside.has(message.id) && tokens >= this.summaryTriggerTokens()) {
+          break;
+        }
+        if (batch.length > 0 && tokens + estimateTokens(message) > this.budget()) {
+          break;
+        }
+        batch.push(message);
+        tokens += estimateTokens(message);
+      }
+
+      // A summary of another branch is replaced rather than extended
+      const updated = await this.logosService.summarizeConversation(
+        summary ? session.summary : null,
+        batch.map(({ role, content }) => ({ role, content })),
+        this.summaryMaxTokens(),
+      );
+
+      // Only apply on top of the summary this run started from, so concurrent runs can't skip or repeat turns
+      await this.prisma.chatSession.updateMany({
+        where: { id: session.id, summarized_message_id: session.summarized_message_id },
+        data: {
+          summary: this.truncate(updated, this.summaryMaxTokens()),
+          summarized_message_id: batch[batch.length - 1].id,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(`Failed to refresh summary for chat session ${sessionId}: ${error.message}`);
+    }
+  }
+
+  // The branch from the first message of a conversation down to `leafId`, oldest first. Walks the parent links in
+  // the database, so only the branch itself is read however many alternatives the session has.
+  async branchPath(sessionId: string, leafId: string | null): Promise<MessageLink[]> {
+    if (!leafId) {
+      return [];
+    }
+
+    return this.prisma.$queryRaw<MessageLink[]>`
+      WITH RECURSIVE branch AS (
+        SELECT "id", "parent_id", 0 AS depth
+        FROM "ChatMessage"
+        WHERE "id" = ${leafId} AND "session_id" = ${sessionId}
+        UNION ALL
+        SELECT m."id", m."parent_id", b.depth + 1
+        FROM "ChatMessage" m
+        JOIN branch b ON m."id" = b."parent_id"
+      )
+      SELECT "id", "parent_id" FROM branch ORDER BY depth DESC
+    `;
+  }
+
+  // The end of the branch through `messageId`, following the most recent reply at every fork; null when the
+  // message isn't part of the session
+  async latestLeaf(sessionId: string, messageId: string): Promise<string | null> {
+    const [leaf] = await this.prisma.$queryRaw<{ id: string }[]>`
+      WITH RECURSIVE descent AS (
+        SELECT "id", 0 AS depth
+        FROM "ChatMessage"
+        WHERE "id" = ${messageId} AND "session_id" = ${sessionId}
+        UNION ALL
+        SELECT (
+          SELECT c."id" FROM "ChatMessage" c
+          WHERE c."parent_id" = d."id"
+          ORDER BY c."created_at" DESC, c."id" DESC
+          LIMIT 1
+        ), d.depth + 1
+        FROM descent d
+        WHERE d."id" IS NOT NULL
+      )
+      SELECT "id" FROM descent WHERE "id" IS NOT NULL ORDER BY depth DESC LIMIT 1
+    `;
+    return leaf?.id ?? null;
+  }
+
+  private async selectContext(session: SessionContext, leafId: string | null) {
+    const budget = this.budget();
+
+    const path = (await this.branchPath(session.id, leafId)).map((link) => link.id);
+
+    // The summary only applies while the branch still runs through the last message it covers
+    const summarizedAt = session.summarized_message_id ? path.indexOf(session.summarized_message_id) : -1;
+    const pending = path.slice(summarizedAt + 1);
+
+    // The summary is cut so that, prefix included, it never takes more than the whole budget
+    let summary: ConversationTurn | null = null;
+    if (session.summary && summarizedAt >= 0) {
+      const room = Math.min(
+        this.summaryMaxTokens(),
+        budget - estimateTokens({ role: 'system', content: SUMMARY_PREFIX }),
+      );
+      summary = { role: 'system', content: `${SUMMARY_PREFIX}${this.truncate(session.summary, room)}` };
+    }
+    let remaining = budget - (summary ? estimateTokens(summary) : 0);
+
+    const recent = await this.prisma.chatMessage.findMany({
+      where: { id: { in: pending }, status: ChatMessageStatus.COMPLETE },
+      orderBy: { created_at: 'desc' },
+      take: WINDOW_MAX_MESSAGES,
+      select: { id: true, role: true, content: true },
+    });
+
+    // Walk back from the newest turn until the budget runs out; older turns are left to the summary
+    const window: typeof recent = [];
+    for (const message of recent) {
+      const cost = estimateTokens(message);
+      if (cost > remaining) {
+        break;
+      }
+      window.unshift(message);
+      remaining -= cost;
+    }
+
+    return { summary, window, pending };
+  }
+
+  private truncate(text: string, maxTokens: number) {
+    const maxChars = Math.max(0, maxTokens) * CHARS_PER_TOKEN;
+    return text.length > maxChars ? text.slice(0, maxChars) : text;
+  }
+
+  private budget() {
+    return this.configService.get<number>('chat.contextTokenBudget') ?? 4000;
+  }
+
+  private summaryTriggerTokens() {
+    return this.configService.get<number>('chat.summaryTriggerTokens') ?? 1500;
+  }
+
+  private summaryMaxTokens() {
+    return this.configService.get<number>('chat.summaryMaxTokens') ?? 500;
+  }
+}
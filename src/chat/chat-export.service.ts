@@ -0,0 +1,214 @@
+import { Injectable } from '@nestjs/common';
+import PDFDocument from 'pdfkit';
+import { dirname, join } from 'path';
+import { ChatMessageStatus } from '@prisma/client';
+import {
+  ChatCitationDetailResponseDto,
+  ChatExportFormat,
+  ChatTranscriptMessageDto,
+  ChatTranscriptResponseDto,
+} from './dto/chat.dto';
+
+// Cited chunk text is shortened to keep exports readable
+const EXCERPT_LENGTH = 300;
+
+// PDFKit's built-in fonts only cover WinAnsi, so DejaVu Sans is embedded (subset) for Greek, Cyrillic and other
+// scripts. It has no CJK glyphs.
+const FONT_DIRECTORY = join(dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONTS = {
+  regular: join(FONT_DIRECTORY, 'DejaVuSans.ttf'),
+  bold: join(FONT_DIRECTORY, 'DejaVuSans-Bold.ttf'),
+  italic: join(FONT_DIRECTORY, 'DejaVuSans-Oblique.ttf'),
+};
+
+export interface ChatExport {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+@Injectable()
+export class ChatExportService {
+  async render(transcript: ChatTranscriptResponseDto, format: ChatExportFormat): Promise<ChatExport> {
+    const basename = this.basename(transcript);
+
+    switch (format) {
+      case 'json':
+        return {
+          filename: `${basename}.json`,
+          contentType: 'application/json; charset=utf-8',
+          body: Buffer.from(JSON.stringify(transcript, null, 2)),
+        };
+      case 'pdf':
+        return { filename: `${basename}.pdf`, contentType: 'application/pdf', body: await this.toPdf(transcript) };
+      default:
+        return {
+          filename: `${basename}.md`,
+          contentType: 'text/markdown; charset=utf-8',
+          body: Buffer.from(this.toMarkdown(transcript)),
+        };
+    }
+  }
+
+  private toMarkdown(transcript: ChatTranscriptResponseDto) {
+    const lines = [
+      `# ${this.title(transcript)}`,
+      '',
+      `_Started ${this.timestamp(transcript.created_at)}, exported ${this.timestamp(transcript.exported_at)}_`,
+      '',
+    ];
+
+    lines.push('## Documents', '');
+    for (const document of transcript.documents) {
+      const details = [document.classification, document.pinned_version ? `version ${document.pinned_version}` : null]
+        .filter(Boolean)
+        .join(', ');
+      lines.push(`- **${document.filename}**${details ? ` (${details})` : ''}`);
+      if (document.summary) {
+        lines.push('', ...this.quote(document.summary).map((line) => `  ${line}`), '');
+      }
+    }
+
+    if (lines[lines.length - 1] !== '') {
+      lines.push('');
+    }
+
+    lines.push('## Conversation', '');
+    for (const message of transcript.messages) {
+      lines.push(`### ${this.speaker(message)} · ${this.timestamp(message.created_at)}`, '');
+      lines.push(`${message.content}${this.markers(message.citations)}`, '');
+
+      if (message.citations.length > 0) {
+        lines.push('**Sources**', '');
+        message.citations.forEach((citation, index) => {
+          lines.push(`${index + 1}. ${this.source(transcript, citation)}`);
+          const excerpt = this.excerpt(citation);
+          if (excerpt) {
+            lines.push(...this.quote(excerpt).map((line) => `   ${line}`));
+          }
+        });
+        lines.push('');
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  // Rendered in-process, so no external services are needed
+  private toPdf(transcript: ChatTranscriptResponseDto): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ margin: 50, info: { Title: this.title(transcript) } });
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      for (const [name, path] of Object.entries(FONTS)) {
+        doc.registerFont(name, path);
+      }
+
+      doc.font('bold').fontSize(18).text(this.title(transcript));
+      doc
+        .font('regular')
+        .fontSize(9)
+        .fillColor('gray')
+        .text(`Started ${this.timestamp(transcript.created_at)}, exported ${this.timestamp(transcript.exported_at)}`);
+
+      doc.moveDown().font('bold').fontSize(13).fillColor('black').text('Documents');
+      for (const document of transcript.documents) {
+        doc.moveDown(0.5).font('bold').fontSize(11).text(document.filename);
+        if (document.classification) {
+          doc.font('regular').fontSize(9).fillColor('gray').text(document.classification).fillColor('black');
+        }
+        if (document.summary) {
+          doc.font('regular').fontSize(10).text(document.summary);
+        }
+      }
+
+      doc.moveDown().font('bold').fontSize(13).text('Conversation');
+      for (const message of transcript.messages) {
+        doc
+          .moveDown(0.75)
+          .font('bold')
+          .fontSize(11)
+          .text(`${this.speaker(message)} · ${this.timestamp(message.created_at)}`);
+        doc
+          .font('regular')
+          .fontSize(10)
+          .text(`${message.content}${this.markers(message.citations)}`);
+
+        message.citations.forEach((citation, index) => {
+          doc
+            .moveDown(0.25)
+            .font('italic')
+            .fontSize(8)
+            .fillColor('gray')
+            .text(`[${index + 1}] ${this.source(transcript, citation)}`);
+          const excerpt = this.excerpt(citation);
+          if (excerpt) {
+            doc.font('regular').text(excerpt, { indent: 12 });
+          }
+          doc.fillColor('black');
+        });
+      }
+
+      doc.end();
+    });
+  }
+
+  private title(transcript: ChatTranscriptResponseDto) {
+    return transcript.title ?? 'Untitled chat';
+  }
+
+  private speaker(message: ChatTranscriptMessageDto) {
+    if (message.role !== 'assistant') {
+      return 'Question';
+    }
+    return message.status === ChatMessageStatus.COMPLETE ? 'Answer' : `Answer (${message.status.toLowerCase()})`;
+  }
+
+  private timestamp(date: Date) {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  private markers(citations: ChatCitationDetailResponseDto[]) {
+    return citations.length > 0 ? ` ${citations.map((_, index) => `[${index + 1}]`).join('')}` : '';
+  }
+
+  // "contract.pdf, page 3", with a note when the chunk text could not be recovered
+  private source(transcript: ChatTranscriptResponseDto, citation: ChatCitationDetailResponseDto) {
+    const document = transcript.documents.find((d) => d.document_id === citation.document_id);
+    const parts = [document?.filename ?? 'Unknown document'];
+    if (citation.page_number !== null) {
+      parts.push(`page ${citation.page_number}`);
+    }
+    if (citation.status === 'missing') {
+      parts.push('source no longer available');
+    } else if (citation.status === 'unavailable') {
+      parts.push('source could not be loaded');
+    }
+    return parts.join(', ');
+  }
+
+  private excerpt(citation: ChatCitationDetailResponseDto) {
+    if (!citation.text) {
+      return null;
+    }
+    const text = citation.text.replace(/\s+/g, ' ').trim();
+    return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+  }
+
+  private quote(text: string) {
+    return text.split('\n').map((line) => `> ${line}`);
+  }
+
+  // Title-based file name, falling back to the session id
+  private basename(transcript: ChatTranscriptResponseDto) {
+    const slug = (transcript.title ?? '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+    return `chat-${slug || transcript.id}`;
+  }
+}
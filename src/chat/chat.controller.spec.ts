@@ -0,0 +1,71 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { ChatController } from './chat.controller';
+import { ChatService } from './chat.service';
+import { ChatExportService } from './chat-export.service';
+import { AccessTokenPrisma, createAccessTokenApp, createAccessTokenPrisma } from '../../test/utils/access-tokens';
+
+const SESSION_ID = '9b2f6d4e-0c5a-4f43-8a57-1f0d3c2b6e71';
+
+describe('ChatController with personal access tokens', () => {
+  let prisma: AccessTokenPrisma;
+  let app: INestApplication<App>;
+  let chat: { getSession: jest.Mock; streamChat: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = createAccessTokenPrisma();
+    chat = {
+      getSession: jest.fn(async () => ({ id: SESSION_ID, messages: [] })),
+      streamChat: jest.fn(async function* () {
+        yield { event: 'done', data: { message_id: 'message-1', status: 'COMPLETE' } };
+      }),
+    };
+
+    app = await createAccessTokenApp(prisma, {
+      controllers: [ChatController],
+      providers: [
+        { provide: ChatService, useValue: chat },
+        { provide: ChatExportService, useValue: {} },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('opens sessions and answers questions with the chat scope', async () => {
+    const token = await prisma.issue(['chat']);
+
+    await request(app.getHttpServer())
+      .get(`/chat/sessions/${SESSION_ID}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+    const { text } = await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ session_id: SESSION_ID, message: 'Hi?' })
+      .expect(201);
+
+    expect(text).toContain('event: done');
+  });
+
+  it('refuses chat routes to a token without the chat scope', async () => {
+    const token = await prisma.issue(['documents:read', 'documents:write']);
+
+    await request(app.getHttpServer())
+      .get(`/chat/sessions/${SESSION_ID}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+    const { body } = await request(app.getHttpServer())
+      .post('/chat')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ session_id: SESSION_ID, message: 'Hi?' })
+      .expect(403);
+
+    expect(body.message).toBe('Token is missing the chat scope');
+    expect(chat.getSession).not.toHaveBeenCalled();
+    expect(chat.streamChat).not.toHaveBeenCalled();
+  });
+});
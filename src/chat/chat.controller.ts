@@ -1,45 +1,243 @@
-import { Controller, Post, Get, Delete, Body, Param, Res, ParseUUIDPipe } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  Headers,
+  ParseUUIDPipe,
+  BadRequestException,
+} from '@nestjs/common';
 import { Response } from 'express';
 import { ChatService } from './chat.service';
-import { ChatRequestDto } from './dto/chat.dto';
+import { ChatExportService } from './chat-export.service';
+import {
+  ChatRequestDto,
+  ChatStreamEvent,
+  CreateChatSessionDto,
+  EditChatMessageDto,
+  ExportChatQueryDto,
+  ListChatSessionsQueryDto,
+  PinVersionDto,
+  RateMessageDto,
+  SelectChatBranchDto,
+  UpdateChatSessionDto,
+} from './dto/chat.dto';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Audit } from '../audit/decorators/audit.decorator';
+import { AuditAction } from '@prisma/client';
+import { RateLimit } from '../usage/decorators/rate-limit.decorator';
 
 @Controller('chat')
+@Scopes('chat')
 export class ChatController {
-  constructor(private readonly chatService: ChatService) {}
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly chatExportService: ChatExportService,
+  ) {}
 
+  // Sending the same request again with Last-Event-ID resumes the answer instead of asking a new question
   @Post()
-  async chat(@CurrentUser('id') userId: string, @Body() chatRequest: ChatRequestDto, @Res() res: Response) {
+  @RateLimit('chat')
+  async chat(
+    @CurrentUser('id') userId: string,
+    @Body() chatRequest: ChatRequestDto,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Res() res: Response,
+  ) {
+    await this.streamEvents(res, userId, lastEventId, (signal) =>
+      this.chatService.streamChat(userId, chatRequest, signal),
+    );
+  }
+
+  @Post('sessions/:sessionId/regenerate')
+  @RateLimit('chat')
+  async regenerate(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Res() res: Response,
+  ) {
+    await this.streamEvents(res, userId, lastEventId, (signal) =>
+      this.chatService.regenerateAnswer(userId, sessionId, signal),
+    );
+  }
+
+  @Post('messages/:messageId/edit')
+  @RateLimit('chat')
+  async editMessage(
+    @CurrentUser('id') userId: string,
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Body() dto: EditChatMessageDto,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Res() res: Response,
+  ) {
+    await this.streamEvents(res, userId, lastEventId, (signal) =>
+      this.chatService.editMessage(userId, messageId, dto.message, signal),
+    );
+  }
+
+  // Follow an answer from the start, or from a Last-Event-ID; works for answers still being generated after their
+  // client disconnected, and costs no quota. EventSource reconnects here on its own.
+  @Get('messages/:messageId/stream')
+  async resumeAnswer(
+    @CurrentUser('id') userId: string,
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Res() res: Response,
+  ) {
+    if (lastEventId && !lastEventId.startsWith(`${messageId}:`)) {
+      throw new BadRequestException('Last-Event-ID belongs to another message');
+    }
+
+    await this.writeEvents(res, (signal) =>
+      this.chatService.resumeStream(userId, lastEventId ?? `${messageId}:0`, signal),
+    );
+  }
+
+  // Write an answer stream as SSE, or resume an earlier one when the client sends Last-Event-ID
+  private async streamEvents(
+    res: Response,
+    userId: string,
+    lastEventId: string | undefined,
+    start: (signal: AbortSignal) => AsyncGenerator<ChatStreamEvent>,
+  ) {
+    if (lastEventId) {
+      return this.writeEvents(res, (signal) => this.chatService.resumeStream(userId, lastEventId, signal));
+    }
+
+    return this.writeEvents(res, start);
+  }
+
+  private async writeEvents(res: Response, open: (signal: AbortSignal) => AsyncGenerator<ChatStreamEvent>) {
+    // Stop writing as soon as the client goes away; the answer itself keeps generating for a while
+    const abort = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        abort.abort();
+      }
+    });
+
+    // The stream opens with its first event, so a missing session, lacking access or an exhausted chat quota
+    // (which is only spent on questions that can be answered) still gets a plain HTTP error
+    const events = open(abort.signal);
+    const first = await events.next();
+
     // Set SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     res.flushHeaders();
 
-    try {
-      const stream = this.chatService.streamChat(userId, chatRequest);
-
-      for await (const chunk of stream) {
-        // Forward the SSE data from Logos
-        res.write(chunk);
+    const send = (event: ChatStreamEvent) => {
+      if (!abort.signal.aborted) {
+        res.write(
+          `${event.id ? `id: ${event.id}\n` : ''}event: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`,
+        );
       }
+    };
 
-      res.end();
+    try {
+      if (!first.done) {
+        send(first.value);
+        for await (const event of events) {
+          send(event);
+        }
+      }
     } catch (error) {
-      // Send error as SSE event
-      res.write(`event: error\ndata: ${JSON.stringify({ error: error.message })}\n\n`);
-      res.end();
+      send({ event: 'error', data: { message: error.message } });
     }
+
+    res.end();
+  }
+
+  @Post('sessions')
+  async createSession(@CurrentUser('id') userId: string, @Body() dto: CreateChatSessionDto) {
+    return this.chatService.createSession(userId, dto);
+  }
+
+  @Get('sessions')
+  async listSessions(@CurrentUser('id') userId: string, @Query() query: ListChatSessionsQueryDto) {
+    return this.chatService.listSessions(userId, query.document_id);
+  }
+
+  @Get('sessions/:sessionId')
+  async getSession(@CurrentUser('id') userId: string, @Param('sessionId', ParseUUIDPipe) sessionId: string) {
+    return this.chatService.getSession(userId, sessionId);
+  }
+
+  @Put('sessions/:sessionId/branch')
+  async selectBranch(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: SelectChatBranchDto,
+  ) {
+    return this.chatService.selectBranch(userId, sessionId, dto.message_id);
+  }
+
+  @Patch('sessions/:sessionId')
+  async renameSession(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: UpdateChatSessionDto,
+  ) {
+    return this.chatService.renameSession(userId, sessionId, dto.title);
+  }
+
+  @Delete('sessions/:sessionId')
+  @Audit(AuditAction.CHAT_HISTORY_CLEAR, { targetType: 'chat_session', targetParam: 'sessionId' })
+  async deleteSession(@CurrentUser('id') userId: string, @Param('sessionId', ParseUUIDPipe) sessionId: string) {
+    await this.chatService.deleteSession(userId, sessionId);
+    return { message: 'Chat session deleted' };
+  }
+
+  @Get('sessions/:sessionId/export')
+  async exportSession(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Query() query: ExportChatQueryDto,
+    @Res() res: Response,
+  ) {
+    const transcript = await this.chatService.getTranscript(userId, sessionId);
+    const file = await this.chatExportService.render(transcript, query.format ?? 'md');
+
+    res.attachment(file.filename);
+    res.setHeader('Content-Type', file.contentType);
+    res.send(file.body);
+  }
+
+  @Get('messages/:messageId/citations')
+  async getCitations(@CurrentUser('id') userId: string, @Param('messageId', ParseUUIDPipe) messageId: string) {
+    return this.chatService.getCitations(userId, messageId);
+  }
+
+  @Put('messages/:messageId/feedback')
+  async rateMessage(
+    @CurrentUser('id') userId: string,
+    @Param('messageId', ParseUUIDPipe) messageId: string,
+    @Body() dto: RateMessageDto,
+  ) {
+    return this.chatService.rateMessage(userId, messageId, dto);
   }
 
-  @Get('history/:documentId')
-  async getChatHistory(@CurrentUser('id') userId: string, @Param('documentId', ParseUUIDPipe) documentId: string) {
-    return this.chatService.getChatHistory(userId, documentId);
+  @Delete('messages/:messageId/feedback')
+  async removeFeedback(@CurrentUser('id') userId: string, @Param('messageId', ParseUUIDPipe) messageId: string) {
+    await this.chatService.removeFeedback(userId, messageId);
+    return { message: 'Feedback removed' };
   }
 
-  @Delete('history/:documentId')
-  async clearChatHistory(@CurrentUser('id') userId: string, @Param('documentId', ParseUUIDPipe) documentId: string) {
-    await this.chatService.clearChatHistory(userId, documentId);
-    return { message: 'Chat history cleared' };
+  @Put('sessions/:sessionId/version')
+  async pinVersion(
+    @CurrentUser('id') userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+    @Body() dto: PinVersionDto,
+  ) {
+    return this.chatService.pinVersion(userId, sessionId, dto.document_id, dto.version ?? null);
   }
 }
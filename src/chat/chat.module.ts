@@ -1,11 +1,15 @@
 import { Module } from '@nestjs/common';
 import { ChatController } from './chat.controller';
 import { ChatService } from './chat.service';
+import { ChatExportService } from './chat-export.service';
+import { ChatContextService } from './chat-context.service';
 import { LogosModule } from '../logos/logos.module';
+import { AccessModule } from '../access/access.module';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
-  imports: [LogosModule],
+  imports: [LogosModule, AccessModule, UsageModule],
   controllers: [ChatController],
-  providers: [ChatService],
+  providers: [ChatService, ChatExportService, ChatContextService],
 })
 export class ChatModule {}
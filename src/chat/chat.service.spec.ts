@@ -0,0 +1,287 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ChatMessageStatus, DocumentStatus } from '@prisma/client';
+import { ChatService } from './chat.service';
+import { ChatContextService, ConversationTurn } from './chat-context.service';
+import { EventChannel } from './event-channel';
+import { ChatStreamEvent } from './dto/chat.dto';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService } from '../logos/logos.service';
+import { DocumentAccessService } from '../access/document-access.service';
+import { UsageService } from '../usage/usage.service';
+import { ChatPrisma, createChatPrisma } from '../../test/utils/in-memory-chat';
+
+// Lets queued promise callbacks run; fake timers leave setImmediate alone
+const settle = async (done: () => boolean) => {
+  for (let i = 0; i < 100 && !done(); i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+};
+
+describe('ChatService', () => {
+  let prisma: ChatPrisma;
+  let chat: ChatService;
+  let logos: { chatStream: jest.Mock };
+  let usage: { reserveChatMessage: jest.Mock };
+  // What Logos streams back; closing it ends the answer
+  let upstream: EventChannel<{ content?: string }>;
+  let logosSignal: AbortSignal;
+
+  const answer = () => prisma.messages.find((m) => m.role === 'assistant')!;
+
+  const session = () => prisma.sessions[0];
+
+  // Appends finished turns to the active branch
+  const addMessages = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      const message = await prisma.chatMessage.create({
+        data: { parent_id: session().active_message_id, role: i % 2 ? 'assistant' : 'user', content: `turn ${i}` },
+      });
+      session().active_message_id = message.id;
+    }
+  };
+
+  const collect = async (stream: AsyncGenerator<ChatStreamEvent>) => {
+    const events: ChatStreamEvent[] = [];
+    for await (const event of stream) {
+      events.push(event);
+    }
+    return events;
+  };
+
+  beforeEach(async () => {
+    prisma = createChatPrisma();
+    await prisma.chatSession.create({ data: { title: 'Chat' } });
+    upstream = new EventChannel();
+
+    usage = { reserveChatMessage: jest.fn() };
+    logos = {
+      // Fails like an aborted HTTP request once Atlas gives up on the answer
+      chatStream: jest.fn(async function* (_ids: string[], _message: string, _history: unknown, signal: AbortSignal) {
+        logosSignal = signal;
+        signal.addEventListener('abort', () => upstream.close());
+        yield* upstream.drain();
+        if (signal.aborted) {
+          throw new Error('canceled');
+        }
+      }),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LogosService, useValue: logos },
+        { provide: UsageService, useValue: usage },
+        ChatContextService,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => (key === 'chat.contextTokenBudget' ? 100_000 : 10_000) },
+        },
+        {
+          provide: DocumentAccessService,
+          useValue: {
+            authorize: jest.fn(async () => ({
+              document: {
+                id: 'document-1',
+                filename: 'contract.pdf',
+                status: DocumentStatus.COMPLETED,
+                logos_id: 'logos-1',
+              },
+            })),
+          },
+        },
+      ],
+    }).compile();
+
+    chat = module.get(ChatService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('streaming answers', () => {
+    it('streams tokens and finishes the answer as COMPLETE', async () => {
+      upstream.push({ content: 'Hello ' });
+      upstream.push({ content: 'world' });
+      upstream.close();
+
+      const events = await collect(chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }));
+
+      expect(events.map((event) => event.event)).toEqual(['token', 'token', 'done']);
+      expect(answer()).toMatchObject({ content: 'Hello world', status: ChatMessageStatus.COMPLETE });
+    });
+
+    it('spends chat quota only on questions it can answer, before saving them', async () => {
+      usage.reserveChatMessage.mockRejectedValueOnce(new Error('Daily limit of 1 chat messages reached'));
+
+      await expect(chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }).next()).rejects.toThrow(
+        'Daily limit',
+      );
+      await expect(chat.streamChat('user-2', { session_id: 'session-1', message: 'Hi?' }).next()).rejects.toThrow(
+        'Chat session not found',
+      );
+
+      expect(usage.reserveChatMessage).toHaveBeenCalledTimes(1);
+      expect(prisma.messages).toHaveLength(0);
+    });
+
+    it('keeps generating after the client disconnects', async () => {
+      const client = new AbortController();
+      const stream = chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }, client.signal);
+      upstream.push({ content: 'Hello ' });
+      expect((await stream.next()).value).toMatchObject({ event: 'token', data: { content: 'Hello ' } });
+
+      client.abort();
+      expect((await stream.next()).done).toBe(true);
+      expect(logosSignal.aborted).toBe(false);
+
+      upstream.push({ content: 'world' });
+      upstream.close();
+      await settle(() => answer().status !== ChatMessageStatus.STREAMING);
+
+      expect(answer()).toMatchObject({ content: 'Hello world', status: ChatMessageStatus.COMPLETE });
+    });
+
+    it('cuts a detached answer short after the timeout, keeping what was generated', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const client = new AbortController();
+      const stream = chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }, client.signal);
+      upstream.push({ content: 'Hello ' });
+      await stream.next();
+
+      client.abort();
+      await stream.next();
+      await jest.advanceTimersByTimeAsync(2 * 60_000);
+      await settle(() => answer().status !== ChatMessageStatus.STREAMING);
+
+      expect(logosSignal.aborted).toBe(true);
+      expect(answer()).toMatchObject({ content: 'Hello ', status: ChatMessageStatus.INCOMPLETE });
+    });
+
+    it('saves partial content while the answer is still streaming', async () => {
+      jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+      const stream = chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' });
+      upstream.push({ content: 'Hello ' });
+      await stream.next();
+
+      jest.advanceTimersByTime(1000);
+      upstream.push({ content: 'world' });
+      await stream.next();
+      await settle(() => answer().content !== '');
+
+      expect(answer()).toMatchObject({ content: 'Hello world', status: ChatMessageStatus.STREAMING });
+
+      upstream.close();
+      await collect(stream);
+    });
+  });
+
+  describe('resumeStream', () => {
+    it('follows a detached answer from the last delivered event to the end', async () => {
+      const client = new AbortController();
+      const stream = chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }, client.signal);
+      upstream.push({ content: 'Hello ' });
+      const { value: delivered } = await stream.next();
+      client.abort();
+      await stream.next();
+
+      const resumed = collect(chat.resumeStream('user-1', (delivered as ChatStreamEvent).id!));
+      upstream.push({ content: 'world' });
+      upstream.close();
+
+      const events = await resumed;
+      expect(events.map((event) => [event.event, event.data])).toEqual([
+        ['token', { content: 'world' }],
+        ['done', { message_id: answer().id, status: ChatMessageStatus.COMPLETE }],
+      ]);
+    });
+
+    it('replays a finished answer from the start', async () => {
+      upstream.push({ content: 'Hello world' });
+      upstream.close();
+      await collect(chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }));
+
+      const events = await collect(chat.resumeStream('user-1', `${answer().id}:0`));
+
+      expect(events[0]).toMatchObject({ event: 'token', data: { content: 'Hello world' } });
+      expect(events[1]).toMatchObject({ event: 'done' });
+    });
+
+    it("refuses another user's answer", async () => {
+      upstream.close();
+      await collect(chat.streamChat('user-1', { session_id: 'session-1', message: 'Hi?' }));
+
+      await expect(chat.resumeStream('user-2', `${answer().id}:0`).next()).rejects.toThrow('Message not found');
+    });
+  });
+
+  describe('branches', () => {
+    const history = () => logos.chatStream.mock.calls[0][2] as ConversationTurn[];
+
+    beforeEach(() => {
+      upstream.push({ content: 'new answer' });
+      upstream.close();
+    });
+
+    it('keeps the previous answer when regenerating and leaves it out of the context', async () => {
+      await addMessages(2);
+      const [question, previous] = prisma.messages;
+
+      await collect(chat.regenerateAnswer('user-1', 'session-1'));
+
+      const regenerated = prisma.messages[2];
+      expect(regenerated).toMatchObject({ parent_id: question.id, role: 'assistant', content: 'new answer' });
+      expect(session().active_message_id).toBe(regenerated.id);
+      expect(previous.content).toBe('turn 1');
+      expect(logos.chatStream.mock.calls[0][1]).toBe(question.content);
+      expect(history()).toEqual([]);
+    });
+
+    it('answers a question whose answer was never saved', async () => {
+      await addMessages(3);
+
+      await collect(chat.regenerateAnswer('user-1', 'session-1'));
+
+      const [question, answer] = prisma.messages.slice(2);
+      expect(answer).toMatchObject({ parent_id: question.id, role: 'assistant', content: 'new answer' });
+      expect(session().active_message_id).toBe(answer.id);
+      expect(logos.chatStream.mock.calls[0][1]).toBe('turn 2');
+      expect(history().map((turn) => turn.content)).toEqual(['turn 0', 'turn 1']);
+    });
+
+    it('forks before an edited question and answers it from the earlier turns only', async () => {
+      await addMessages(4);
+
+      await collect(chat.editMessage('user-1', 'message-3', 'edited question'));
+
+      const [edited, answer] = prisma.messages.slice(4);
+      expect(edited).toMatchObject({ parent_id: 'message-2', role: 'user', content: 'edited question' });
+      expect(answer.parent_id).toBe(edited.id);
+      expect(session().active_message_id).toBe(answer.id);
+      expect(history().map((turn) => turn.content)).toEqual(['turn 0', 'turn 1']);
+    });
+
+    it('refuses to edit an answer', async () => {
+      await addMessages(2);
+
+      await expect(chat.editMessage('user-1', 'message-2', 'edited').next()).rejects.toThrow(
+        'Only questions can be edited',
+      );
+    });
+
+    it('switches to the most recent end of the branch through a message', async () => {
+      await addMessages(4);
+      await collect(chat.editMessage('user-1', 'message-3', 'edited question'));
+
+      await chat.selectBranch('user-1', 'session-1', 'message-3');
+      expect(session().active_message_id).toBe('message-4');
+
+      await chat.selectBranch('user-1', 'session-1', 'message-1');
+      expect(session().active_message_id).toBe(prisma.messages[5].id);
+
+      await expect(chat.selectBranch('user-1', 'session-1', 'message-9')).rejects.toThrow('Message not found');
+    });
+  });
+});
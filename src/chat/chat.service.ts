@@ -1,154 +1,825 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
 import { PrismaService } from '../database/prisma.service';
 import { LogosService } from '../logos/logos.service';
-import { DocumentStatus } from '@prisma/client';
-import { ChatRequestDto, ChatHistoryResponseDto } from './dto/chat.dto';
+import { setTimeout as sleep } from 'timers/promises';
+import { randomUUID } from 'crypto';
+import {
+  ChatCitation,
+  ChatMessage,
+  ChatMessageStatus,
+  Document,
+  DocumentStatus,
+  MessageFeedback,
+  Prisma,
+  SharePermission,
+} from '@prisma/client';
+import { DocumentAccessLevel, DocumentAccessService } from '../access/document-access.service';
+import { UsageService } from '../usage/usage.service';
+import { ChatContextService, ConversationTurn } from './chat-context.service';
+import { EventChannel } from './event-channel';
+import {
+  ChatCitationDetailResponseDto,
+  ChatRequestDto,
+  ChatSessionDetailResponseDto,
+  ChatSessionResponseDto,
+  ChatStreamEvent,
+  ChatTranscriptResponseDto,
+  CreateChatSessionDto,
+  MessageFeedbackResponseDto,
+  PinnedVersionResponseDto,
+  RateMessageDto,
+} from './dto/chat.dto';
+
+// Generated titles are cut at a word boundary near this length
+const GENERATED_TITLE_LENGTH = 60;
+
+// How often a streaming answer's partial content is written to the database
+const STREAM_FLUSH_INTERVAL_MS = 1000;
+
+// An answer keeps generating for this long after its client disconnects, so it can be resumed, then is cut short
+const DETACHED_GENERATION_TIMEOUT_MS = 2 * 60_000;
+
+// A resumed stream polls the stored answer until it finishes. A detached answer ends within the timeout above,
+// so this only gives up on answers whose process went away mid-stream.
+const RESUME_POLL_INTERVAL_MS = 500;
+const RESUME_TIMEOUT_MS = DETACHED_GENERATION_TIMEOUT_MS + 30_000;
+
+const sessionSummaryInclude = {
+  documents: {
+    orderBy: { position: 'asc' },
+    include: {
+      document: { select: { filename: true } },
+      version: { select: { version_number: true } },
+    },
+  },
+  _count: { select: { messages: true } },
+} satisfies Prisma.ChatSessionInclude;
+
+type ChatSessionSummary = Prisma.ChatSessionGetPayload<{ include: typeof sessionSummaryInclude }>;
+
+type ChatSessionWithDocuments = Prisma.ChatSessionGetPayload<{ include: { documents: true } }>;
+
+// A question to answer: one already asked, or a new one to save under `parent_id`
+type ChatQuestion = ChatMessage | { parent_id: string | null; content: string };
+
+// A session document resolved to the Logos document chat runs against
+interface ChatTarget {
+  documentId: string;
+  logosId: string;
+}
+
+interface AttributedChunk {
+  chunk_id: string;
+  document_id: string | null;
+  logos_id: string | null;
+}
 
 @Injectable()
 export class ChatService {
+  private readonly logger = new Logger(ChatService.name);
+
   constructor(
     private readonly prisma: PrismaService,
     private readonly logosService: LogosService,
+    private readonly documentAccess: DocumentAccessService,
+    private readonly chatContext: ChatContextService,
+    private readonly usageService: UsageService,
   ) {}
 
-  async validateDocumentAccess(userId: string, documentId: string) {
-    const document = await this.prisma.document.findUnique({
-      where: { id: documentId },
+  // Chatting requires at least CHAT on the document
+  async validateDocumentAccess(
+    userId: string,
+    documentId: string,
+    required: DocumentAccessLevel = SharePermission.CHAT,
+  ) {
+    const { document } = await this.documentAccess.authorize(userId, documentId, required);
+    return document;
+  }
+
+  // Sessions are private to their creator, who must also still be able to chat with every document in them
+  private async findOwnedSession(userId: string, sessionId: string) {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, user_id: userId },
+      include: { documents: { orderBy: { position: 'asc' } } },
     });
 
-    if (!document) {
-      throw new NotFoundException('Document not found');
+    if (!session || session.documents.length === 0) {
+      throw new NotFoundException('Chat session not found');
     }
 
-    if (document.user_id !== userId) {
-      throw new ForbiddenException('Access denied');
+    const documents: Document[] = [];
+    for (const link of session.documents) {
+      documents.push(await this.validateDocumentAccess(userId, link.document_id));
     }
 
-    if (document.status !== DocumentStatus.COMPLETED) {
-      throw new BadRequestException(`Document is not ready. Current status: ${document.status}`);
+    return { session, documents };
+  }
+
+  // Resolve the Logos document chat should run against: the pinned version, else the current one
+  private async resolveChatTarget(document: Document, versionId: string | null): Promise<ChatTarget> {
+    const target = versionId ? await this.prisma.documentVersion.findUnique({ where: { id: versionId } }) : document;
+
+    if (!target || target.status !== DocumentStatus.COMPLETED) {
+      throw new BadRequestException(
+        `Document ${document.filename} is not ready. Current status: ${target?.status ?? document.status}`,
+      );
     }
 
-    if (!document.logos_id) {
-      throw new BadRequestException('Document has no Logos reference');
+    if (!target.logos_id) {
+      throw new BadRequestException(`Document ${document.filename} has no Logos reference`);
     }
 
-    return document;
+    return { documentId: document.id, logosId: target.logos_id };
   }
 
-  // Get or create chat session for a document
-  private async getOrCreateSession(documentId: string) {
-    let session = await this.prisma.chatSession.findUnique({
-      where: { document_id: documentId },
-    });
-
-    if (!session) {
-      session = await this.prisma.chatSession.create({
-        data: { document_id: documentId },
-      });
+  async createSession(userId: string, dto: CreateChatSessionDto): Promise<ChatSessionResponseDto> {
+    for (const documentId of dto.document_ids) {
+      await this.validateDocumentAccess(userId, documentId);
     }
 
-    return session;
+    const session = await this.prisma.chatSession.create({
+      data: {
+        user_id: userId,
+        title: dto.title ?? null,
+        documents: {
+          create: dto.document_ids.map((documentId, position) => ({ document_id: documentId, position })),
+        },
+      },
+      include: sessionSummaryInclude,
+    });
+
+    return this.toSessionResponse(session);
   }
 
-  // Get chat history for a document
-  async getChatHistory(userId: string, documentId: string): Promise<ChatHistoryResponseDto> {
+  // The caller's sessions that include a document, most recently active first
+  async listSessions(userId: string, documentId: string): Promise<ChatSessionResponseDto[]> {
     await this.validateDocumentAccess(userId, documentId);
 
-    const session = await this.prisma.chatSession.findUnique({
-      where: { document_id: documentId },
+    const sessions = await this.prisma.chatSession.findMany({
+      where: { user_id: userId, documents: { some: { document_id: documentId } } },
+      include: sessionSummaryInclude,
+      orderBy: { updated_at: 'desc' },
+    });
+
+    return sessions.map((session) => this.toSessionResponse(session));
+  }
+
+  // The session with the messages of its active branch; alternatives are listed on each message
+  async getSession(userId: string, sessionId: string): Promise<ChatSessionDetailResponseDto> {
+    const owned = await this.findOwnedSession(userId, sessionId);
+    const branch = await this.loadActiveBranch(owned.session);
+
+    const session = await this.prisma.chatSession.findUniqueOrThrow({
+      where: { id: sessionId },
       include: {
+        ...sessionSummaryInclude,
         messages: {
+          where: { id: { in: branch.path } },
           orderBy: { created_at: 'asc' },
+          include: { citations: { orderBy: { position: 'asc' } }, feedback: true },
         },
       },
     });
 
-    if (!session) {
-      return {
-        session_id: '',
-        document_id: documentId,
-        messages: [],
-      };
-    }
-
     return {
-      session_id: session.id,
-      document_id: documentId,
+      ...this.toSessionResponse(session),
       messages: session.messages.map((m) => ({
         id: m.id,
+        parent_id: m.parent_id,
+        sibling_ids: branch.siblingIds(m),
         role: m.role,
         content: m.content,
+        status: m.status,
+        error: m.error,
         chunk_ids: m.chunk_ids,
+        citations: m.citations.map((c) => ({ chunk_id: c.chunk_id, document_id: c.document_id })),
+        feedback: m.feedback ? this.toFeedbackResponse(m.feedback) : null,
         created_at: m.created_at,
       })),
     };
   }
 
-  // Clear chat history for a document
-  async clearChatHistory(userId: string, documentId: string): Promise<void> {
-    await this.validateDocumentAccess(userId, documentId);
+  // Switch to the branch through a message, following its most recent replies down to the end
+  async selectBranch(userId: string, sessionId: string, messageId: string): Promise<ChatSessionDetailResponseDto> {
+    await this.findOwnedSession(userId, sessionId);
 
-    await this.prisma.chatSession.deleteMany({
-      where: { document_id: documentId },
+    const leafId = await this.chatContext.latestLeaf(sessionId, messageId);
+    if (!leafId) {
+      throw new NotFoundException('Message not found');
+    }
+
+    await this.prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { active_message_id: leafId },
     });
+
+    return this.getSession(userId, sessionId);
   }
 
-  // Save a message to the session
-  async saveMessage(documentId: string, role: 'user' | 'assistant', content: string, chunkIds: string[] = []) {
-    const session = await this.getOrCreateSession(documentId);
+  // Message ids on the session's active branch, oldest first, and the alternatives to any message
+  private async loadActiveBranch(session: { id: string; active_message_id: string | null }) {
+    const path = await this.chatContext.branchPath(session.id, session.active_message_id);
 
-    return this.prisma.chatMessage.create({
-      data: {
-        session_id: session.id,
-        role,
-        content,
-        chunk_ids: chunkIds,
+    // Only the alternatives along the branch are read, not the whole tree
+    const parentIds = path.flatMap((link) => (link.parent_id ? [link.parent_id] : []));
+    const siblings = path.length
+      ? await this.prisma.chatMessage.findMany({
+          where: { session_id: session.id, OR: [{ parent_id: { in: parentIds } }, { parent_id: null }] },
+          orderBy: { created_at: 'asc' },
+          select: { id: true, parent_id: true },
+        })
+      : [];
+
+    return {
+      path: path.map((link) => link.id),
+      siblingIds: (message: { parent_id: string | null }) =>
+        siblings.filter((l) => l.parent_id === message.parent_id).map((l) => l.id),
+    };
+  }
+
+  async renameSession(userId: string, sessionId: string, title: string): Promise<ChatSessionResponseDto> {
+    await this.findOwnedSession(userId, sessionId);
+
+    const session = await this.prisma.chatSession.update({
+      where: { id: sessionId },
+      data: { title },
+      include: sessionSummaryInclude,
+    });
+
+    return this.toSessionResponse(session);
+  }
+
+  // Deletes the session and its messages; the owner may do this even after losing access to the documents
+  async deleteSession(userId: string, sessionId: string): Promise<void> {
+    const { count } = await this.prisma.chatSession.deleteMany({
+      where: { id: sessionId, user_id: userId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Chat session not found');
+    }
+  }
+
+  // Pin one of the session's documents to a version, or follow the current version again when `versionNumber` is null
+  async pinVersion(
+    userId: string,
+    sessionId: string,
+    documentId: string | undefined,
+    versionNumber: number | null,
+  ): Promise<PinnedVersionResponseDto> {
+    const { session } = await this.findOwnedSession(userId, sessionId);
+
+    if (!documentId && session.documents.length > 1) {
+      throw new BadRequestException('document_id is required for sessions with several documents');
+    }
+
+    const link = documentId ? session.documents.find((d) => d.document_id === documentId) : session.documents[0];
+
+    if (!link) {
+      throw new NotFoundException('Document is not part of this session');
+    }
+
+    let versionId: string | null = null;
+    if (versionNumber !== null) {
+      const version = await this.prisma.documentVersion.findUnique({
+        where: { document_id_version_number: { document_id: link.document_id, version_number: versionNumber } },
+      });
+
+      if (!version) {
+        throw new NotFoundException('Version not found');
+      }
+      versionId = version.id;
+    }
+
+    await this.prisma.chatSessionDocument.update({
+      where: { session_id_document_id: { session_id: session.id, document_id: link.document_id } },
+      data: { version_id: versionId },
+    });
+
+    return { session_id: session.id, document_id: link.document_id, pinned_version: versionNumber };
+  }
+
+  // Messages are reachable through their session, under the same rules
+  private async findOwnedMessage(userId: string, messageId: string) {
+    const message = await this.prisma.chatMessage.findUnique({
+      where: { id: messageId },
+      include: { session: { select: { user_id: true } } },
+    });
+
+    if (!message || message.session.user_id !== userId) {
+      throw new NotFoundException('Message not found');
+    }
+    const { session, documents } = await this.findOwnedSession(userId, message.session_id);
+
+    return { message, session, documents };
+  }
+
+  // Resolve a message's citations to chunk text and location, caching what Logos returns on the citation rows
+  async getCitations(userId: string, messageId: string): Promise<ChatCitationDetailResponseDto[]> {
+    await this.findOwnedMessage(userId, messageId);
+
+    const citations = await this.prisma.chatCitation.findMany({
+      where: { message_id: messageId },
+      orderBy: { position: 'asc' },
+    });
+
+    const resolved = await this.resolveCitations(citations);
+    return resolved.map((c) => this.toCitationResponse(c));
+  }
+
+  // Rate an assistant answer; rating it again replaces the previous rating
+  async rateMessage(userId: string, messageId: string, dto: RateMessageDto): Promise<MessageFeedbackResponseDto> {
+    const { message } = await this.findOwnedMessage(userId, messageId);
+
+    if (message.role !== 'assistant') {
+      throw new BadRequestException('Only assistant messages can be rated');
+    }
+
+    const data = { rating: dto.rating, reason: dto.reason ?? null, comment: dto.comment ?? null };
+    const feedback = await this.prisma.messageFeedback.upsert({
+      where: { message_id: messageId },
+      create: { ...data, message_id: messageId, user_id: userId },
+      update: data,
+    });
+
+    return this.toFeedbackResponse(feedback);
+  }
+
+  async removeFeedback(userId: string, messageId: string): Promise<void> {
+    await this.findOwnedMessage(userId, messageId);
+
+    await this.prisma.messageFeedback.deleteMany({
+      where: { message_id: messageId },
+    });
+  }
+
+  // Everything needed to export a session: documents with their summaries and the active branch's messages with
+  // resolved citations
+  async getTranscript(userId: string, sessionId: string): Promise<ChatTranscriptResponseDto> {
+    const owned = await this.findOwnedSession(userId, sessionId);
+    const branch = await this.loadActiveBranch(owned.session);
+
+    const session = await this.prisma.chatSession.findUniqueOrThrow({
+      where: { id: sessionId },
+      include: {
+        documents: {
+          orderBy: { position: 'asc' },
+          include: {
+            document: { select: { filename: true, summary: true, classification: true } },
+            version: { select: { version_number: true } },
+          },
+        },
+        messages: {
+          where: { id: { in: branch.path } },
+          orderBy: { created_at: 'asc' },
+          include: { citations: { orderBy: { position: 'asc' } } },
+        },
       },
     });
+
+    const citations = await this.resolveCitations(session.messages.flatMap((m) => m.citations));
+    const citationsByMessage = new Map<string, ChatCitationDetailResponseDto[]>();
+    for (const citation of citations) {
+      const list = citationsByMessage.get(citation.message_id) ?? [];
+      list.push(this.toCitationResponse(citation));
+      citationsByMessage.set(citation.message_id, list);
+    }
+
+    return {
+      id: session.id,
+      title: session.title,
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+      exported_at: new Date(),
+      documents: session.documents.map((d) => ({
+        document_id: d.document_id,
+        filename: d.document.filename,
+        summary: d.document.summary,
+        classification: d.document.classification,
+        pinned_version: d.version?.version_number ?? null,
+      })),
+      messages: session.messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        status: m.status,
+        created_at: m.created_at,
+        citations: citationsByMessage.get(m.id) ?? [],
+      })),
+    };
   }
 
-  async *streamChat(userId: string, chatRequest: ChatRequestDto) {
-    const document = await this.validateDocumentAccess(userId, chatRequest.document_id);
+  // Fill in unresolved citations from Logos in one lookup, returning the list in its original order
+  private async resolveCitations(citations: ChatCitation[]): Promise<ChatCitation[]> {
+    const pending = citations.filter((c) => !c.resolved_at);
+    if (pending.length === 0) {
+      return citations;
+    }
+
+    let resolved: ChatCitation[] = [];
+    try {
+      const chunks = await this.logosService.getChunks([...new Set(pending.map((c) => c.chunk_id))]);
+      const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+      const resolvedAt = new Date();
+
+      // Chunks Logos didn't return are cached as missing so they aren't looked up again
+      resolved = await this.prisma.$transaction(
+        pending.map((c) => {
+          const chunk = chunksById.get(c.chunk_id);
+          return this.prisma.chatCitation.update({
+            where: { id: c.id },
+            data: {
+              logos_id: c.logos_id ?? chunk?.document_id ?? null,
+              text: chunk?.text ?? null,
+              page_number: chunk?.page_number ?? null,
+              char_start: chunk?.char_start ?? null,
+              char_end: chunk?.char_end ?? null,
+              resolved_at: resolvedAt,
+            },
+          });
+        }),
+      );
+    } catch (error) {
+      // Leave the citations unresolved and retry on the next request
+      this.logger.warn(`Failed to resolve ${pending.length} citations: ${error.message}`);
+    }
 
-    // Save user message
-    await this.saveMessage(chatRequest.document_id, 'user', chatRequest.message);
+    const resolvedById = new Map(resolved.map((c) => [c.id, c]));
+    return citations.map((c) => resolvedById.get(c.id) ?? c);
+  }
 
-    // Get existing history from DB for context
-    const history = await this.getChatHistory(userId, chatRequest.document_id);
-    const conversationHistory = history.messages
-      .slice(0, -1) // Exclude the message we just saved
-      .map((m) => ({ role: m.role, content: m.content }));
+  // Save a message under its parent, making it the end of the session's active branch
+  async saveMessage(
+    sessionId: string,
+    role: 'user' | 'assistant',
+    content: string,
+    parentId: string | null,
+    status: ChatMessageStatus = ChatMessageStatus.COMPLETE,
+  ) {
+    const id = randomUUID();
+    const [message] = await this.prisma.$transaction([
+      this.prisma.chatMessage.create({
+        data: { id, session_id: sessionId, parent_id: parentId, role, content, status },
+      }),
+      this.prisma.chatSession.update({
+        where: { id: sessionId },
+        data: { active_message_id: id, updated_at: new Date() },
+      }),
+    ]);
 
-    // Stream from Logos service
-    const stream = this.logosService.chatStream(document.logos_id!, chatRequest.message, conversationHistory);
+    return message;
+  }
+
+  // Store the final state of a streamed answer, however the stream ended
+  private async finishAnswer(
+    answer: ChatMessage,
+    content: string,
+    status: ChatMessageStatus,
+    details: { citations?: AttributedChunk[]; error?: string } = {},
+  ) {
+    const citations = details.citations ?? [];
+    const [message] = await this.prisma.$transaction([
+      this.prisma.chatMessage.update({
+        where: { id: answer.id },
+        data: {
+          content,
+          status,
+          error: details.error ?? null,
+          chunk_ids: citations.map((c) => c.chunk_id),
+          citations: { create: citations.map((c, position) => ({ ...c, position })) },
+        },
+        include: { citations: { orderBy: { position: 'asc' } } },
+      }),
+      this.prisma.chatSession.update({
+        where: { id: answer.session_id },
+        data: { updated_at: new Date() },
+      }),
+    ]);
 
-    let fullResponse = '';
+    return message;
+  }
+
+  // Ask a new question at the end of the session's active branch
+  async *streamChat(
+    userId: string,
+    chatRequest: ChatRequestDto,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const { session, documents } = await this.findOwnedSession(userId, chatRequest.session_id);
+
+    yield* this.streamAnswer(
+      session,
+      documents,
+      { parent_id: session.active_message_id, content: chatRequest.message },
+      signal,
+    );
+  }
+
+  // Answer the last question of the active branch again; the previous answer is kept as an alternative
+  async *regenerateAnswer(userId: string, sessionId: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const { session, documents } = await this.findOwnedSession(userId, sessionId);
+
+    const previous = session.active_message_id
+      ? await this.prisma.chatMessage.findUnique({
+          where: { id: session.active_message_id },
+          include: { parent: true },
+        })
+      : null;
+
+    // A question whose answer was never saved, e.g. because the server went down first, is simply answered
+    if (previous?.role === 'user') {
+      yield* this.streamAnswer(session, documents, previous, signal);
+      return;
+    }
+
+    if (!previous?.parent) {
+      throw new BadRequestException('There is no answer to regenerate');
+    }
+    if (previous.status === ChatMessageStatus.STREAMING) {
+      throw new ConflictException('The answer is still being generated');
+    }
+
+    yield* this.streamAnswer(session, documents, previous.parent, signal);
+  }
+
+  // Ask an edited version of an earlier question, forking the conversation before it; the original branch is kept
+  async *editMessage(
+    userId: string,
+    messageId: string,
+    content: string,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const { message, session, documents } = await this.findOwnedMessage(userId, messageId);
+
+    if (message.role !== 'user') {
+      throw new BadRequestException('Only questions can be edited');
+    }
+
+    yield* this.streamAnswer(session, documents, { parent_id: message.parent_id, content }, signal);
+  }
+
+  // Streams the answer as token events; the answer is persisted as it arrives and ends COMPLETE, INCOMPLETE or ERROR.
+  // `signal` only tells that the client went away: the answer is generated apart from the stream, and keeps going
+  // for up to DETACHED_GENERATION_TIMEOUT_MS after that so a resumed stream can follow it to the end.
+  private async *streamAnswer(
+    session: ChatSessionWithDocuments,
+    documents: Document[],
+    question: ChatQuestion,
+    signal?: AbortSignal,
+  ): AsyncGenerator<ChatStreamEvent> {
+    const targets: ChatTarget[] = [];
+    for (const [index, document] of documents.entries()) {
+      targets.push(await this.resolveChatTarget(document, session.documents[index].version_id));
+    }
+
+    // Counted once the question is known to be answerable, and before anything is saved or sent to Logos
+    await this.usageService.reserveChatMessage(session.user_id);
+
+    // Bounded context of the branch leading to the question, leaving out interrupted and failed answers
+    const history = await this.chatContext.buildHistory(session, question.parent_id);
+
+    // Save a new question, and the answer up front so an interrupted turn is never left without a marker
+    const asked =
+      'id' in question ? question : await this.saveMessage(session.id, 'user', question.content, question.parent_id);
+    const answer = await this.saveMessage(session.id, 'assistant', '', asked.id, ChatMessageStatus.STREAMING);
+
+    const events = new EventChannel<ChatStreamEvent>();
+    const generation = new AbortController();
+    const generated = this.generateAnswer(session, targets, asked, answer, history, events, generation.signal);
+
+    let detached = false;
+    const detach = () => {
+      if (!detached) {
+        detached = true;
+        events.close();
+        const timeout = setTimeout(() => generation.abort(), DETACHED_GENERATION_TIMEOUT_MS);
+        void generated.finally(() => clearTimeout(timeout));
+      }
+    };
+
+    signal?.addEventListener('abort', detach);
+    try {
+      if (!signal?.aborted) {
+        yield* events.drain();
+      }
+    } finally {
+      signal?.removeEventListener('abort', detach);
+      detach();
+    }
+  }
+
+  // Generate the answer from Logos into `events`, saving it as it goes. Never throws.
+  private async generateAnswer(
+    session: ChatSessionWithDocuments,
+    targets: ChatTarget[],
+    asked: ChatMessage,
+    answer: ChatMessage,
+    history: ConversationTurn[],
+    events: EventChannel<ChatStreamEvent>,
+    signal: AbortSignal,
+  ): Promise<void> {
+    let content = '';
     let chunkIds: string[] = [];
+    const sources = new Map<string, string>();
+    let flushedAt = Date.now();
+
+    try {
+      try {
+        const stream = this.logosService.chatStream(
+          targets.map((t) => t.logosId),
+          asked.content,
+          history,
+          signal,
+        );
 
-    for await (const chunk of stream) {
-      // Parse chunk to accumulate full response
-      const lines = chunk.toString().split('\n');
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          try {
-            const data = JSON.parse(line.slice(6));
-            if (data.content) {
-              fullResponse += data.content;
-            }
-            if (data.chunk_ids) {
-              chunkIds = data.chunk_ids;
-            }
-          } catch {
-            // Ignore parse errors
+        for await (const event of stream) {
+          if (event.chunk_ids) {
+            chunkIds = event.chunk_ids;
           }
+          for (const source of event.sources ?? []) {
+            sources.set(source.chunk_id, source.document_id);
+          }
+          if (!event.content) {
+            continue;
+          }
+
+          content += event.content;
+          events.push({
+            id: this.streamEventId(answer.id, content.length),
+            event: 'token',
+            data: { content: event.content },
+          });
+
+          // Persist progress periodically so a resumed stream can pick up what was already generated
+          if (Date.now() - flushedAt >= STREAM_FLUSH_INTERVAL_MS) {
+            await this.prisma.chatMessage.update({ where: { id: answer.id }, data: { content } });
+            flushedAt = Date.now();
+          }
+        }
+
+        if (!content) {
+          throw new Error('Logos returned an empty answer');
         }
+      } catch (error) {
+        const finished = signal.aborted
+          ? await this.finishAnswer(answer, content, ChatMessageStatus.INCOMPLETE)
+          : await this.finishAnswer(answer, content, ChatMessageStatus.ERROR, { error: error.message });
+        this.closingEvents(finished, content.length).forEach((event) => events.push(event));
+        return;
       }
-      yield chunk;
+
+      const finished = await this.finishAnswer(answer, content, ChatMessageStatus.COMPLETE, {
+        citations: this.attributeChunks(chunkIds, sources, targets),
+      });
+
+      // Title untitled sessions after their first complete exchange, without overwriting a rename made meanwhile
+      if (!session.title) {
+        await this.prisma.chatSession.updateMany({
+          where: { id: session.id, title: null },
+          data: { title: this.generateTitle(asked.content, content) },
+        });
+      }
+
+      // Summarizing calls Logos again, so it runs in the background instead of holding the stream open
+      void this.chatContext.refreshSummary(session.id);
+
+      this.closingEvents(finished, content.length).forEach((event) => events.push(event));
+    } catch (error) {
+      this.logger.error(`Failed to save answer ${answer.id}: ${error.message}`);
+      events.push({ event: 'error', data: { message: error.message, message_id: answer.id } });
+    } finally {
+      events.close();
+    }
+  }
+
+  // Continue a stream from a Last-Event-ID: replay what was generated after it, following the answer while it streams
+  async *resumeStream(userId: string, lastEventId: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const match = /^([0-9a-f-]{36}):(\d+)$/i.exec(lastEventId);
+    if (!match) {
+      throw new BadRequestException('Invalid Last-Event-ID');
     }
 
-    // Save assistant response after streaming completes
-    if (fullResponse) {
-      await this.saveMessage(chatRequest.document_id, 'assistant', fullResponse, chunkIds);
+    const [, messageId, delivered] = match;
+    const { message } = await this.findOwnedMessage(userId, messageId);
+    if (message.role !== 'assistant') {
+      throw new BadRequestException('Invalid Last-Event-ID');
     }
+
+    let offset = Number(delivered);
+    const deadline = Date.now() + RESUME_TIMEOUT_MS;
+
+    while (!signal?.aborted) {
+      const current = await this.prisma.chatMessage.findUniqueOrThrow({
+        where: { id: messageId },
+        include: { citations: { orderBy: { position: 'asc' } } },
+      });
+
+      if (current.content.length > offset) {
+        const content = current.content.slice(offset);
+        offset = current.content.length;
+        yield { id: this.streamEventId(messageId, offset), event: 'token', data: { content } };
+      }
+
+      if (current.status !== ChatMessageStatus.STREAMING) {
+        yield* this.closingEvents(current, offset);
+        return;
+      }
+
+      if (Date.now() >= deadline) {
+        yield {
+          event: 'error',
+          data: { message: 'Answer is still being generated, try again later', message_id: messageId },
+        };
+        return;
+      }
+
+      await sleep(RESUME_POLL_INTERVAL_MS);
+    }
+  }
+
+  private closingEvents(message: ChatMessage & { citations: ChatCitation[] }, offset: number): ChatStreamEvent[] {
+    const id = this.streamEventId(message.id, offset);
+
+    if (message.status === ChatMessageStatus.ERROR) {
+      return [{ id, event: 'error', data: { message: message.error ?? 'Chat failed', message_id: message.id } }];
+    }
+
+    const events: ChatStreamEvent[] = [];
+    if (message.citations.length > 0) {
+      events.push({
+        id,
+        event: 'citations',
+        data: { citations: message.citations.map((c) => ({ chunk_id: c.chunk_id, document_id: c.document_id })) },
+      });
+    }
+    events.push({ id, event: 'done', data: { message_id: message.id, status: message.status } });
+    return events;
+  }
+
+  private streamEventId(messageId: string, offset: number) {
+    return `${messageId}:${offset}`;
+  }
+
+  // Map each cited chunk to its document; single-document sessions need no attribution from Logos
+  private attributeChunks(chunkIds: string[], sources: Map<string, string>, targets: ChatTarget[]): AttributedChunk[] {
+    const documentsByLogosId = new Map(targets.map((t) => [t.logosId, t.documentId]));
+
+    return chunkIds.map((chunkId) => {
+      const logosId = sources.get(chunkId) ?? (targets.length === 1 ? targets[0].logosId : null);
+      return {
+        chunk_id: chunkId,
+        document_id: (logosId && documentsByLogosId.get(logosId)) ?? null,
+        logos_id: logosId,
+      };
+    });
+  }
+
+  // Derive a short title from the opening question, falling back to the answer
+  private generateTitle(question: string, answer: string) {
+    const text = (question.trim() || answer.trim()).replace(/\s+/g, ' ');
+    if (text.length <= GENERATED_TITLE_LENGTH) {
+      return text;
+    }
+
+    const cut = text.slice(0, GENERATED_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    return `${(lastSpace > GENERATED_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:!?-]+$/, '')}…`;
+  }
+
+  private toFeedbackResponse(feedback: MessageFeedback): MessageFeedbackResponseDto {
+    return {
+      rating: feedback.rating,
+      reason: feedback.reason,
+      comment: feedback.comment,
+      updated_at: feedback.updated_at,
+    };
+  }
+
+  private toCitationResponse(citation: ChatCitation): ChatCitationDetailResponseDto {
+    return {
+      position: citation.position,
+      chunk_id: citation.chunk_id,
+      document_id: citation.document_id,
+      status: !citation.resolved_at ? 'unavailable' : citation.text === null ? 'missing' : 'resolved',
+      text: citation.text,
+      page_number: citation.page_number,
+      char_start: citation.char_start,
+      char_end: citation.char_end,
+    };
+  }
+
+  private toSessionResponse(session: ChatSessionSummary): ChatSessionResponseDto {
+    return {
+      id: session.id,
+      title: session.title,
+      documents: session.documents.map((d) => ({
+        document_id: d.document_id,
+        filename: d.document.filename,
+        pinned_version: d.version?.version_number ?? null,
+      })),
+      message_count: session._count.messages,
+      created_at: session.created_at,
+      updated_at: session.updated_at,
+    };
   }
 }
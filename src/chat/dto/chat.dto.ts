@@ -1,40 +1,216 @@
-import { IsNotEmpty, IsString, IsUUID, IsArray, ValidateNested, IsOptional } from 'class-validator';
-import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  IsArray,
+  IsEnum,
+  IsOptional,
+  IsIn,
+  IsInt,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ChatMessageStatus, FeedbackRating, FeedbackReason } from '@prisma/client';
 
-export class ChatMessageDto {
-  @IsString()
-  role: 'user' | 'assistant';
+export const CHAT_SESSION_TITLE_MAX_LENGTH = 120;
+export const CHAT_SESSION_MAX_DOCUMENTS = 10;
+export const CHAT_MESSAGE_MAX_LENGTH = 8000;
 
-  @IsString()
-  content: string;
-}
+// Trim titles before validation so whitespace-only names are rejected
+const trimTitle = ({ value }: { value: unknown }) => (typeof value === 'string' ? value.trim() : value);
 
+// History comes from the stored session, so requests carry only the new question
 export class ChatRequestDto {
   @IsNotEmpty()
   @IsUUID()
-  document_id: string;
+  session_id: string;
 
   @IsNotEmpty()
   @IsString()
+  @MaxLength(CHAT_MESSAGE_MAX_LENGTH)
   message: string;
+}
 
-  @IsOptional()
+// Replaces an earlier question; the conversation forks before it
+export class EditChatMessageDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(CHAT_MESSAGE_MAX_LENGTH)
+  message: string;
+}
+
+export class SelectChatBranchDto {
+  // Any message on the branch; the branch is followed down through its most recent replies
+  @IsUUID()
+  message_id: string;
+}
+
+export class CreateChatSessionDto {
+  // Every document must grant the caller at least CHAT
   @IsArray()
-  @ValidateNested({ each: true })
-  @Type(() => ChatMessageDto)
-  conversation_history?: ChatMessageDto[];
+  @ArrayMinSize(1)
+  @ArrayMaxSize(CHAT_SESSION_MAX_DOCUMENTS)
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  document_ids: string[];
+
+  // Omit to have the title generated from the first exchange
+  @IsOptional()
+  @Transform(trimTitle)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(CHAT_SESSION_TITLE_MAX_LENGTH)
+  title?: string;
+}
+
+export class UpdateChatSessionDto {
+  @Transform(trimTitle)
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(CHAT_SESSION_TITLE_MAX_LENGTH)
+  title: string;
+}
+
+export class ListChatSessionsQueryDto {
+  @IsNotEmpty()
+  @IsUUID()
+  document_id: string;
+}
+
+export class ChatCitationResponseDto {
+  chunk_id: string;
+  document_id: string | null; // Null when the source document is unknown or was deleted
+}
+
+// resolved: text is available; missing: Logos no longer has the chunk; unavailable: Logos could not be reached
+export type ChatCitationStatus = 'resolved' | 'missing' | 'unavailable';
+
+export class ChatCitationDetailResponseDto extends ChatCitationResponseDto {
+  position: number;
+  status: ChatCitationStatus;
+  text: string | null;
+  page_number: number | null;
+  char_start: number | null;
+  char_end: number | null;
+}
+
+export class RateMessageDto {
+  @IsEnum(FeedbackRating)
+  rating: FeedbackRating;
+
+  @IsOptional()
+  @IsEnum(FeedbackReason)
+  reason?: FeedbackReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+export class MessageFeedbackResponseDto {
+  rating: FeedbackRating;
+  reason: FeedbackReason | null;
+  comment: string | null;
+  updated_at: Date;
 }
 
 export class ChatMessageResponseDto {
   id: string;
+  parent_id: string | null;
+  sibling_ids: string[]; // Alternatives at this point of the conversation, this message included, oldest first
   role: string;
   content: string;
+  status: ChatMessageStatus;
+  error: string | null;
   chunk_ids: string[];
+  citations: ChatCitationResponseDto[];
+  feedback: MessageFeedbackResponseDto | null; // The caller's rating of an assistant answer
   created_at: Date;
 }
 
-export class ChatHistoryResponseDto {
-  session_id: string;
+export class ChatSessionDocumentResponseDto {
   document_id: string;
+  filename: string;
+  pinned_version: number | null;
+}
+
+export class ChatSessionResponseDto {
+  id: string;
+  title: string | null;
+  documents: ChatSessionDocumentResponseDto[];
+  message_count: number;
+  created_at: Date;
+  updated_at: Date; // Bumped on every message, so lists sort by last activity
+}
+
+export class ChatSessionDetailResponseDto extends ChatSessionResponseDto {
   messages: ChatMessageResponseDto[];
 }
+
+export const CHAT_EXPORT_FORMATS = ['md', 'json', 'pdf'] as const;
+export type ChatExportFormat = (typeof CHAT_EXPORT_FORMATS)[number];
+
+export class ExportChatQueryDto {
+  @IsOptional()
+  @IsIn(CHAT_EXPORT_FORMATS)
+  format?: ChatExportFormat = 'md';
+}
+
+export class ChatTranscriptDocumentDto {
+  document_id: string;
+  filename: string;
+  summary: string | null;
+  classification: string | null;
+  pinned_version: number | null;
+}
+
+export class ChatTranscriptMessageDto {
+  id: string;
+  role: string;
+  content: string;
+  status: ChatMessageStatus;
+  created_at: Date;
+  citations: ChatCitationDetailResponseDto[];
+}
+
+// Body of the JSON export and input to the Markdown and PDF renderers
+export class ChatTranscriptResponseDto {
+  id: string;
+  title: string | null;
+  created_at: Date;
+  updated_at: Date;
+  exported_at: Date;
+  documents: ChatTranscriptDocumentDto[];
+  messages: ChatTranscriptMessageDto[];
+}
+
+// Events sent on the chat SSE stream; ids are `<assistant message id>:<characters delivered>` for Last-Event-ID resumes
+export type ChatStreamEvent =
+  | { id: string; event: 'token'; data: { content: string } }
+  | { id: string; event: 'citations'; data: { citations: ChatCitationResponseDto[] } }
+  | { id: string; event: 'done'; data: { message_id: string; status: ChatMessageStatus } }
+  | { id?: string; event: 'error'; data: { message: string; message_id?: string } };
+
+export class PinVersionDto {
+  // Required when the session chats across several documents
+  @IsOptional()
+  @IsUUID()
+  document_id?: string;
+
+  // Omit or send null to follow the document's current version
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  version?: number | null;
+}
+
+export class PinnedVersionResponseDto {
+  session_id: string;
+  document_id: string;
+  pinned_version: number | null;
+}
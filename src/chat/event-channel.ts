@@ -0,0 +1,37 @@
+// Hands values from a producer to at most one consumer without the producer ever waiting on it.
+// Once closed, further values are dropped, so a consumer that went away doesn't make the buffer grow.
+export class EventChannel<T> {
+  private readonly buffer: T[] = [];
+  private wake: (() => void) | null = null;
+  private closed = false;
+
+  push(value: T) {
+    if (!this.closed) {
+      this.buffer.push(value);
+      this.wake?.();
+    }
+  }
+
+  close() {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  // Yields buffered values as they arrive, ending once the channel is closed and drained
+  async *drain(): AsyncGenerator<T> {
+    while (true) {
+      const value = this.buffer.shift();
+      if (value !== undefined) {
+        yield value;
+        continue;
+      }
+
+      if (this.closed) {
+        return;
+      }
+
+      await new Promise<void>((resolve) => (this.wake = resolve));
+      this.wake = null;
+    }
+  }
+}
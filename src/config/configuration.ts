@@ -2,6 +2,7 @@ export default () => ({
   app: {
     environment: process.env.NODE_ENV || 'development',
     port: parseInt(process.env.PORT || '3000', 10),
+    publicUrl: process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`,
   },
   jwt: {
     accessTokenSecret: process.env.JWT_ACCESS_TOKEN_SECRET,
@@ -9,10 +10,78 @@ export default () => ({
     accessTokenExpiration: process.env.JWT_ACCESS_TOKEN_EXPIRATION || '15m',
     refreshTokenExpiration: process.env.JWT_REFRESH_TOKEN_EXPIRATION || '7d',
   },
+  auth: {
+    emailVerificationTtlHours: parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48', 10),
+    passwordResetTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '30', 10),
+  },
   database: {
     url: process.env.DATABASE_URL,
   },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT || 'file',
+    from: process.env.MAIL_FROM || 'Atlas <no-reply@localhost>',
+    // Web app that handles the links in account emails
+    appUrl: process.env.MAIL_APP_URL || process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}`,
+    filePath: process.env.MAIL_FILE_PATH,
+    smtp: {
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
   logos: {
     baseUrl: process.env.LOGOS_BASE_URL || 'http://localhost:8000',
   },
+  storage: {
+    driver: process.env.STORAGE_DRIVER || 'local',
+    localPath: process.env.STORAGE_LOCAL_PATH || './storage',
+    signingSecret: process.env.STORAGE_SIGNING_SECRET,
+    presignExpirySeconds: parseInt(process.env.PRESIGNED_UPLOAD_EXPIRY_SECONDS || '900', 10),
+    s3: {
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    },
+  },
+  chat: {
+    contextTokenBudget: parseInt(process.env.CHAT_CONTEXT_TOKEN_BUDGET || '4000', 10),
+    summaryTriggerTokens: parseInt(process.env.CHAT_SUMMARY_TRIGGER_TOKENS || '1500', 10),
+    summaryMaxTokens: parseInt(process.env.CHAT_SUMMARY_MAX_TOKENS || '500', 10),
+  },
+  // Defaults per role; admins can override any of them for a single user
+  limits: {
+    USER: {
+      apiRequestsPerMinute: parseInt(process.env.LIMITS_USER_API_REQUESTS_PER_MINUTE || '120', 10),
+      uploadRequestsPerMinute: parseInt(process.env.LIMITS_USER_UPLOAD_REQUESTS_PER_MINUTE || '10', 10),
+      chatRequestsPerMinute: parseInt(process.env.LIMITS_USER_CHAT_REQUESTS_PER_MINUTE || '20', 10),
+      maxDocuments: parseInt(process.env.LIMITS_USER_MAX_DOCUMENTS || '200', 10),
+      maxStorageBytes: parseInt(process.env.LIMITS_USER_MAX_STORAGE_BYTES || '1073741824', 10),
+      chatMessagesPerDay: parseInt(process.env.LIMITS_USER_CHAT_MESSAGES_PER_DAY || '500', 10),
+    },
+    ADMIN: {
+      apiRequestsPerMinute: parseInt(process.env.LIMITS_ADMIN_API_REQUESTS_PER_MINUTE || '600', 10),
+      uploadRequestsPerMinute: parseInt(process.env.LIMITS_ADMIN_UPLOAD_REQUESTS_PER_MINUTE || '60', 10),
+      chatRequestsPerMinute: parseInt(process.env.LIMITS_ADMIN_CHAT_REQUESTS_PER_MINUTE || '60', 10),
+      maxDocuments: parseInt(process.env.LIMITS_ADMIN_MAX_DOCUMENTS || '5000', 10),
+      maxStorageBytes: parseInt(process.env.LIMITS_ADMIN_MAX_STORAGE_BYTES || '53687091200', 10),
+      chatMessagesPerDay: parseInt(process.env.LIMITS_ADMIN_CHAT_MESSAGES_PER_DAY || '5000', 10),
+    },
+  },
+  webhooks: {
+    logosSecret: process.env.LOGOS_WEBHOOK_SECRET,
+    toleranceSeconds: parseInt(process.env.LOGOS_WEBHOOK_TOLERANCE_SECONDS || '300', 10),
+  },
+  reconciliation: {
+    enabled: process.env.RECONCILIATION_ENABLED !== 'false',
+    intervalMs: parseInt(process.env.RECONCILIATION_INTERVAL_MS || '60000', 10),
+    batchSize: parseInt(process.env.RECONCILIATION_BATCH_SIZE || '25', 10),
+    backoffBaseMs: parseInt(process.env.RECONCILIATION_BACKOFF_BASE_MS || '30000', 10),
+    backoffMaxMs: parseInt(process.env.RECONCILIATION_BACKOFF_MAX_MS || '3600000', 10),
+    maxAgeHours: parseInt(process.env.RECONCILIATION_MAX_AGE_HOURS || '24', 10),
+  },
 });
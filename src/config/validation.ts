@@ -1,19 +1,90 @@
 import { z } from 'zod';
 
 export const validateEnv = (config: Record<string, unknown>) => {
-  const envSchema = z.object({
-    NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
-    PORT: z.string().default('3000'),
-
-    // JWT
-    JWT_ACCESS_TOKEN_SECRET: z.string().min(32),
-    JWT_REFRESH_TOKEN_SECRET: z.string().min(32),
-    JWT_ACCESS_TOKEN_EXPIRATION: z.string().default('30m'),
-    JWT_REFRESH_TOKEN_EXPIRATION: z.string().default('7d'),
-
-    // Database
-    DATABASE_URL: z.url(),
-  });
+  const envSchema = z
+    .object({
+      NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
+      PORT: z.string().default('3000'),
+      PUBLIC_URL: z.url().optional(),
+
+      // JWT
+      JWT_ACCESS_TOKEN_SECRET: z.string().min(32),
+      JWT_REFRESH_TOKEN_SECRET: z.string().min(32),
+      JWT_ACCESS_TOKEN_EXPIRATION: z.string().default('30m'),
+      JWT_REFRESH_TOKEN_EXPIRATION: z.string().default('7d'),
+
+      // Email verification and password reset links
+      EMAIL_VERIFICATION_TTL_HOURS: z.string().regex(/^\d+$/).default('48'),
+      PASSWORD_RESET_TTL_MINUTES: z.string().regex(/^\d+$/).default('30'),
+
+      // Mail
+      // Defaults to file outside production, where it has to be chosen explicitly
+      MAIL_TRANSPORT: z.enum(['file', 'smtp']).optional(),
+      MAIL_FROM: z.string().default('Atlas <no-reply@localhost>'),
+      MAIL_APP_URL: z.url().optional(),
+      MAIL_FILE_PATH: z.string().optional(),
+      SMTP_HOST: z.string().optional(),
+      SMTP_PORT: z.string().regex(/^\d+$/).default('587'),
+      SMTP_SECURE: z.enum(['true', 'false']).default('false'),
+      SMTP_USER: z.string().optional(),
+      SMTP_PASSWORD: z.string().optional(),
+
+      // Database
+      DATABASE_URL: z.url(),
+
+      // Logos
+      LOGOS_BASE_URL: z.url().default('http://localhost:8000'),
+      LOGOS_WEBHOOK_SECRET: z.string().min(32),
+      LOGOS_WEBHOOK_TOLERANCE_SECONDS: z.string().regex(/^\d+$/).default('300'),
+
+      // Chat context sent to Logos
+      CHAT_CONTEXT_TOKEN_BUDGET: z.string().regex(/^\d+$/).default('4000'),
+      CHAT_SUMMARY_TRIGGER_TOKENS: z.string().regex(/^\d+$/).default('1500'),
+      CHAT_SUMMARY_MAX_TOKENS: z.string().regex(/^\d+$/).default('500'),
+
+      // Usage limits per role
+      LIMITS_USER_API_REQUESTS_PER_MINUTE: z.string().regex(/^\d+$/).default('120'),
+      LIMITS_USER_UPLOAD_REQUESTS_PER_MINUTE: z.string().regex(/^\d+$/).default('10'),
+      LIMITS_USER_CHAT_REQUESTS_PER_MINUTE: z.string().regex(/^\d+$/).default('20'),
+      LIMITS_USER_MAX_DOCUMENTS: z.string().regex(/^\d+$/).default('200'),
+      LIMITS_USER_MAX_STORAGE_BYTES: z.string().regex(/^\d+$/).default('1073741824'),
+      LIMITS_USER_CHAT_MESSAGES_PER_DAY: z.string().regex(/^\d+$/).default('500'),
+      LIMITS_ADMIN_API_REQUESTS_PER_MINUTE: z.string().regex(/^\d+$/).default('600'),
+      LIMITS_ADMIN_UPLOAD_REQUESTS_PER_MINUTE: z.string().regex(/^\d+$/).default('60'),
+      LIMITS_ADMIN_CHAT_REQUESTS_PER_MINUTE: z.string().regex(/^\d+$/).default('60'),
+      LIMITS_ADMIN_MAX_DOCUMENTS: z.string().regex(/^\d+$/).default('5000'),
+      LIMITS_ADMIN_MAX_STORAGE_BYTES: z.string().regex(/^\d+$/).default('53687091200'),
+      LIMITS_ADMIN_CHAT_MESSAGES_PER_DAY: z.string().regex(/^\d+$/).default('5000'),
+
+      // File storage
+      STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+      STORAGE_LOCAL_PATH: z.string().default('./storage'),
+      STORAGE_SIGNING_SECRET: z.string().min(32).optional(),
+      PRESIGNED_UPLOAD_EXPIRY_SECONDS: z.string().regex(/^\d+$/).default('900'),
+      S3_BUCKET: z.string().optional(),
+      S3_REGION: z.string().default('us-east-1'),
+      S3_ENDPOINT: z.url().optional(),
+      S3_ACCESS_KEY_ID: z.string().optional(),
+      S3_SECRET_ACCESS_KEY: z.string().optional(),
+      S3_FORCE_PATH_STYLE: z.enum(['true', 'false']).default('false'),
+
+      // Background reconciliation
+      RECONCILIATION_ENABLED: z.enum(['true', 'false']).default('true'),
+      RECONCILIATION_INTERVAL_MS: z.string().regex(/^\d+$/).default('60000'),
+      RECONCILIATION_BATCH_SIZE: z.string().regex(/^\d+$/).default('25'),
+      RECONCILIATION_BACKOFF_BASE_MS: z.string().regex(/^\d+$/).default('30000'),
+      RECONCILIATION_BACKOFF_MAX_MS: z.string().regex(/^\d+$/).default('3600000'),
+      RECONCILIATION_MAX_AGE_HOURS: z.string().regex(/^\d+$/).default('24'),
+    })
+    .refine((env) => env.STORAGE_DRIVER !== 's3' || !!env.S3_BUCKET, {
+      message: 'S3_BUCKET is required when STORAGE_DRIVER=s3',
+    })
+    .refine((env) => env.NODE_ENV !== 'production' || !!env.MAIL_TRANSPORT, {
+      message: 'MAIL_TRANSPORT is required in production',
+    })
+    .refine((env) => env.MAIL_TRANSPORT !== 'smtp' || !!env.SMTP_HOST, {
+      message: 'SMTP_HOST is required when MAIL_TRANSPORT=smtp',
+    });
 
   const parsed = envSchema.safeParse(config);
 
@@ -0,0 +1,130 @@
+import { Injectable, Logger, BadRequestException } from '@nestjs/common';
+import { DocumentOwner, DocumentsService, UploadedFileData } from './documents.service';
+import { BatchUploadResponseDto, BatchUploadResultDto } from './dto/batch-upload.dto';
+import {
+  ALLOWED_CONTENT_TYPES,
+  MAX_ARCHIVE_ENTRIES,
+  MAX_ARCHIVE_UNCOMPRESSED_SIZE,
+  MAX_COMPRESSION_RATIO,
+  MAX_UPLOAD_SIZE,
+  SNIFF_BYTES,
+} from './documents.constants';
+import { contentTypeFromFilename, matchesContentType } from './file-type.util';
+import { extractZip, InvalidArchiveError, ZipEntry } from './zip-archive';
+
+@Injectable()
+export class DocumentBatchService {
+  private readonly logger = new Logger(DocumentBatchService.name);
+
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  async uploadBatch(
+    owner: DocumentOwner,
+    files: UploadedFileData[],
+    allowDuplicate = false,
+  ): Promise<BatchUploadResponseDto> {
+    const results: BatchUploadResultDto[] = [];
+
+    // Sequential on purpose: one user's batch shouldn't flood Logos
+    for (const file of files) {
+      results.push(await this.ingest(owner, file, allowDuplicate));
+    }
+
+    return this.summarize(results);
+  }
+
+  async uploadArchive(
+    owner: DocumentOwner,
+    archive: UploadedFileData,
+    allowDuplicate = false,
+  ): Promise<BatchUploadResponseDto> {
+    const results: BatchUploadResultDto[] = [];
+    try {
+      // Each entry is ingested before the next one is decompressed
+      await extractZip(
+        archive.buffer,
+        {
+          maxEntries: MAX_ARCHIVE_ENTRIES,
+          maxEntrySize: MAX_UPLOAD_SIZE,
+          maxTotalSize: MAX_ARCHIVE_UNCOMPRESSED_SIZE,
+          maxCompressionRatio: MAX_COMPRESSION_RATIO,
+        },
+        async (entry) => {
+          results.push(await this.ingestEntry(owner, entry, allowDuplicate));
+        },
+      );
+    } catch (error) {
+      if (error instanceof InvalidArchiveError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    return this.summarize(results);
+  }
+
+  private async ingestEntry(
+    owner: DocumentOwner,
+    entry: ZipEntry,
+    allowDuplicate: boolean,
+  ): Promise<BatchUploadResultDto> {
+    if ('rejected' in entry) {
+      return { filename: entry.filename, status: 'rejected', reason: entry.rejected };
+    }
+
+    const contentType = contentTypeFromFilename(entry.filename);
+    if (!contentType) {
+      return { filename: entry.filename, status: 'rejected', reason: 'Unsupported file type' };
+    }
+
+    return this.ingest(
+      owner,
+      { originalname: entry.filename, mimetype: contentType, size: entry.data.length, buffer: entry.data },
+      allowDuplicate,
+    );
+  }
+
+  // Never throws: every outcome becomes a per-file result
+  private async ingest(
+    owner: DocumentOwner,
+    file: UploadedFileData,
+    allowDuplicate: boolean,
+  ): Promise<BatchUploadResultDto> {
+    const filename = file.originalname;
+
+    if (!ALLOWED_CONTENT_TYPES.includes(file.mimetype)) {
+      return { filename, status: 'rejected', reason: `Invalid file type: ${file.mimetype}` };
+    }
+
+    if (file.size === 0 || file.size > MAX_UPLOAD_SIZE) {
+      return { filename, status: 'rejected', reason: `File size must be between 1 byte and ${MAX_UPLOAD_SIZE} bytes` };
+    }
+
+    if (!matchesContentType(file.buffer.subarray(0, SNIFF_BYTES), file.mimetype)) {
+      return { filename, status: 'rejected', reason: `File content does not match ${file.mimetype}` };
+    }
+
+    try {
+      const created = await this.documentsService.uploadDocument(owner, file, allowDuplicate);
+      return {
+        filename,
+        status: created.duplicate ? 'duplicate' : 'created',
+        document_id: created.id,
+        logos_id: created.logos_id,
+      };
+    } catch (error) {
+      this.logger.warn(`Batch upload of ${filename} failed: ${error.message}`);
+      return { filename, status: 'failed', reason: error.message };
+    }
+  }
+
+  private summarize(results: BatchUploadResultDto[]): BatchUploadResponseDto {
+    return {
+      results,
+      created: results.filter((r) => r.status === 'created').length,
+      duplicate: results.filter((r) => r.status === 'duplicate').length,
+      rejected: results.filter((r) => r.status === 'rejected').length,
+      failed: results.filter((r) => r.status === 'failed').length,
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Document, DocumentStatus } from '@prisma/client';
+import { Observable, Subject, filter } from 'rxjs';
+import { PrismaService } from '../database/prisma.service';
+
+export interface DocumentStatusEvent {
+  id: string;
+  user_id: string;
+  audience: string[]; // Users allowed to see the document when the event was published
+  document_id: string;
+  status: DocumentStatus;
+  summary: string | null;
+  classification: string | null;
+  error_message: string | null;
+  updated_at: Date;
+}
+
+// How many recent events are kept in memory for Last-Event-ID resume
+const REPLAY_BUFFER_SIZE = 1000;
+
+@Injectable()
+export class DocumentEventsService {
+  private readonly logger = new Logger(DocumentEventsService.name);
+  // Event ids are `<boot>-<sequence>` so ids from a previous process are recognised as unresumable
+  private readonly bootId = Date.now().toString(36);
+  private sequence = 0;
+  private readonly buffer: DocumentStatusEvent[] = [];
+  private readonly events$ = new Subject<DocumentStatusEvent>();
+  // Audience lookups are chained so events are still emitted in publish order
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  publish(document: Document) {
+    this.pending = this.pending
+      .then(() => this.resolveAudience(document))
+      .then((audience) => this.emit(document, audience))
+      .catch((error) => {
+        this.logger.warn(`Failed to resolve share recipients for ${document.id}: ${error.message}`);
+        this.emit(document, [document.user_id]);
+      });
+  }
+
+  // Workspace members, or the personal owner, plus everyone the document is shared with
+  private async resolveAudience(document: Document): Promise<string[]> {
+    const [members, shares] = await Promise.all([
+      document.organization_id
+        ? this.prisma.membership.findMany({
+            where: { organization_id: document.organization_id },
+            select: { user_id: true },
+          })
+        : [{ user_id: document.user_id }],
+      this.prisma.documentShare.findMany({ where: { document_id: document.id }, select: { user_id: true } }),
+    ]);
+
+    return [...new Set([...members, ...shares].map((entry) => entry.user_id))];
+  }
+
+  private emit(document: Document, audience: string[]) {
+    const event: DocumentStatusEvent = {
+      id: `${this.bootId}-${++this.sequence}`,
+      user_id: document.user_id,
+      audience,
+      document_id: document.id,
+      status: document.status,
+      summary: document.summary,
+      classification: document.classification,
+      error_message: document.error_message,
+      updated_at: document.updated_at,
+    };
+
+    this.buffer.push(event);
+    if (this.buffer.length > REPLAY_BUFFER_SIZE) {
+      this.buffer.shift();
+    }
+
+    this.events$.next(event);
+  }
+
+  stream(userId: string): Observable<DocumentStatusEvent> {
+    return this.events$.pipe(filter((event) => event.audience.includes(userId)));
+  }
+
+  // Events the user missed after `lastEventId`, or null when that point is no longer in the buffer
+  replaySince(userId: string, lastEventId: string): DocumentStatusEvent[] | null {
+    const [bootId, sequence] = lastEventId.split('-');
+    const lastSequence = Number(sequence);
+
+    if (bootId !== this.bootId || !Number.isInteger(lastSequence)) {
+      return null;
+    }
+
+    const oldest = this.buffer[0];
+    if (oldest && this.sequenceOf(oldest) > lastSequence + 1) {
+      return null;
+    }
+
+    return this.buffer.filter((event) => event.audience.includes(userId) && this.sequenceOf(event) > lastSequence);
+  }
+
+  private sequenceOf(event: DocumentStatusEvent): number {
+    return Number(event.id.split('-')[1]);
+  }
+}
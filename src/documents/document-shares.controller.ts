@@ -0,0 +1,28 @@
+import { Controller, Get, Post, Delete, Param, Body } from '@nestjs/common';
+import { DocumentSharesService } from './document-shares.service';
+import { GrantShareDto } from './dto/document-share.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+
+@Controller('documents/:id/shares')
+export class DocumentSharesController {
+  constructor(private readonly documentSharesService: DocumentSharesService) {}
+
+  @Post()
+  @Scopes('documents:write')
+  async grantShare(@CurrentUser('id') userId: string, @Param('id') documentId: string, @Body() dto: GrantShareDto) {
+    return this.documentSharesService.grantShare(userId, documentId, dto);
+  }
+
+  @Get()
+  @Scopes('documents:read')
+  async listShares(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
+    return this.documentSharesService.listShares(userId, documentId);
+  }
+
+  @Delete(':email')
+  @Scopes('documents:write')
+  async revokeShare(@CurrentUser('id') userId: string, @Param('id') documentId: string, @Param('email') email: string) {
+    return this.documentSharesService.revokeShare(userId, documentId, email);
+  }
+}
@@ -0,0 +1,100 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { Prisma, SharePermission } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { DocumentAccessService } from '../access/document-access.service';
+import { DocumentShareResponseDto, GrantShareDto } from './dto/document-share.dto';
+
+const SHARE_INCLUDE = {
+  user: { select: { email: true, name: true } },
+  granted_by: { select: { email: true } },
+} satisfies Prisma.DocumentShareInclude;
+
+type ShareWithUsers = Prisma.DocumentShareGetPayload<{ include: typeof SHARE_INCLUDE }>;
+
+@Injectable()
+export class DocumentSharesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly documentAccess: DocumentAccessService,
+  ) {}
+
+  async listShares(userId: string, documentId: string): Promise<DocumentShareResponseDto[]> {
+    await this.documentAccess.authorize(userId, documentId, SharePermission.MANAGE);
+
+    const shares = await this.prisma.documentShare.findMany({
+      where: { document_id: documentId },
+      include: SHARE_INCLUDE,
+      orderBy: { created_at: 'asc' },
+    });
+
+    return shares.map((share) => this.toResponse(share));
+  }
+
+  // Grant access to the user with this email, or change the level of an existing share
+  async grantShare(userId: string, documentId: string, dto: GrantShareDto): Promise<DocumentShareResponseDto> {
+    const { document } = await this.documentAccess.authorize(userId, documentId, SharePermission.MANAGE);
+    const recipient = await this.findRecipient(dto.email);
+
+    if (!document.organization_id && recipient.id === document.user_id) {
+      throw new BadRequestException('The document owner already has full access');
+    }
+
+    const share = await this.prisma.documentShare.upsert({
+      where: { document_id_user_id: { document_id: documentId, user_id: recipient.id } },
+      create: {
+        document_id: documentId,
+        user_id: recipient.id,
+        permission: dto.permission,
+        granted_by_id: userId,
+      },
+      update: { permission: dto.permission, granted_by_id: userId },
+      include: SHARE_INCLUDE,
+    });
+
+    return this.toResponse(share);
+  }
+
+  // Managers can revoke anyone's share; recipients can always remove themselves
+  async revokeShare(userId: string, documentId: string, email: string) {
+    const recipient = await this.findRecipient(email);
+
+    if (recipient.id !== userId) {
+      await this.documentAccess.authorize(userId, documentId, SharePermission.MANAGE);
+    }
+
+    const { count } = await this.prisma.documentShare.deleteMany({
+      where: { document_id: documentId, user_id: recipient.id },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Share not found');
+    }
+
+    return { message: 'Share revoked successfully' };
+  }
+
+  private async findRecipient(email: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private toResponse(share: ShareWithUsers): DocumentShareResponseDto {
+    return {
+      user_id: share.user_id,
+      email: share.user.email,
+      name: share.user.name,
+      permission: share.permission,
+      granted_by: share.granted_by?.email ?? null,
+      created_at: share.created_at,
+      updated_at: share.updated_at,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Readable } from 'stream';
+import { DocumentUploadsService } from './document-uploads.service';
+import { DocumentsService } from './documents.service';
+import { PrismaService } from '../database/prisma.service';
+import { ByteRange, StorageAdapter } from '../storage/storage.adapter';
+import { createTable, InMemoryTable } from '../../test/utils/in-memory-prisma';
+
+interface StoredPendingUpload {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  storage_key: string;
+  filename: string;
+  content_type: string;
+  expires_at: Date;
+}
+
+const owner = { userId: 'user-1', organizationId: null };
+
+// Objects kept in `objects`, as S3 would
+const createStorage = (objects: Map<string, Buffer>) => ({
+  get: jest.fn(async (key: string, range?: ByteRange) => {
+    const body = objects.get(key)!;
+    return Readable.from([range ? body.subarray(range.start, range.end + 1) : body]);
+  }),
+  stat: jest.fn(async (key: string) => (objects.has(key) ? { size: objects.get(key)!.length } : null)),
+  delete: jest.fn(async (key: string) => void objects.delete(key)),
+  copy: jest.fn(async (from: string, to: string) => void objects.set(to, objects.get(from)!)),
+  createUploadUrl: jest.fn(async (key: string) => ({ url: `https://s3/${key}`, method: 'PUT', headers: {} })),
+});
+
+describe('DocumentUploadsService', () => {
+  let objects: Map<string, Buffer>;
+  let storage: ReturnType<typeof createStorage>;
+  let pendingUpload: InMemoryTable<StoredPendingUpload>;
+  let documents: { registerStoredFile: jest.Mock; deleteStoredFile: jest.Mock };
+  let uploads: DocumentUploadsService;
+
+  // Presigns an upload and puts `body` where the client would upload it
+  const upload = async (body: string) => {
+    const { key } = await uploads.presign(owner, { filename: 'notes.txt', content_type: 'text/plain' });
+    objects.set(key, Buffer.from(body));
+    return key;
+  };
+
+  beforeEach(async () => {
+    objects = new Map();
+    pendingUpload = createTable<StoredPendingUpload>({
+      create: (data) => ({
+        id: `upload-${pendingUpload.rows.length + 1}`,
+        user_id: '',
+        organization_id: null,
+        storage_key: '',
+        filename: '',
+        content_type: '',
+        expires_at: new Date(),
+        ...data,
+      }),
+    });
+
+    storage = createStorage(objects);
+
+    let storedFiles = 0;
+    documents = {
+      registerStoredFile: jest.fn(async () => ({ id: 'document-1' })),
+      deleteStoredFile: jest.fn(async (key: string) => storage.delete(key)),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        DocumentUploadsService,
+        { provide: PrismaService, useValue: { pendingUpload } },
+        { provide: StorageAdapter, useValue: storage },
+        {
+          provide: DocumentsService,
+          useValue: {
+            ...documents,
+            createStorageKey: jest.fn((userId: string) => `documents/${userId}/${++storedFiles}`),
+            findDuplicate: jest.fn(async () => null),
+          },
+        },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    uploads = module.get(DocumentUploadsService);
+  });
+
+  it('stores a confirmed upload under a new key and removes the presigned one', async () => {
+    const key = await upload('meeting notes');
+
+    await uploads.confirm(owner, { key });
+
+    expect(objects.has(key)).toBe(false);
+    expect(objects.get('documents/user-1/1')?.toString()).toBe('meeting notes');
+    expect(documents.registerStoredFile).toHaveBeenCalledWith(
+      owner,
+      expect.objectContaining({ storageKey: 'documents/user-1/1', size: 13 }),
+      { allowDuplicate: false },
+    );
+  });
+
+  it('removes both copies when reading the upload fails', async () => {
+    const key = await upload('meeting notes');
+    storage.get
+      .mockImplementationOnce(async () => Readable.from([Buffer.from('meeting')]))
+      .mockImplementationOnce(async () => {
+        throw new Error('Connection reset');
+      });
+
+    await expect(uploads.confirm(owner, { key })).rejects.toThrow('Connection reset');
+
+    expect(objects.size).toBe(0);
+    expect(pendingUpload.rows).toHaveLength(0);
+    expect(documents.registerStoredFile).not.toHaveBeenCalled();
+  });
+});
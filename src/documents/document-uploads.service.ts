@@ -0,0 +1,176 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { createHash, randomUUID } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { StorageAdapter, StoredObjectInfo } from '../storage/storage.adapter';
+import { DocumentOwner, DocumentsService } from './documents.service';
+import { ConfirmUploadDto, PresignUploadDto, PresignedUploadResponseDto } from './dto/presigned-upload.dto';
+import { UploadDocumentResponseDto } from './dto/document-response.dto';
+import { MAX_UPLOAD_SIZE, SNIFF_BYTES } from './documents.constants';
+import { matchesContentType } from './file-type.util';
+
+@Injectable()
+export class DocumentUploadsService {
+  private readonly logger = new Logger(DocumentUploadsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storage: StorageAdapter,
+    private readonly documentsService: DocumentsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async presign(owner: DocumentOwner, dto: PresignUploadDto): Promise<PresignedUploadResponseDto> {
+    // Kept apart from stored documents, which are copied to a key of their own on confirm
+    const key = `uploads/${owner.userId}/${randomUUID()}`;
+    const expirySeconds = this.configService.get<number>('storage.presignExpirySeconds') ?? 900;
+    const expiresAt = new Date(Date.now() + expirySeconds * 1000);
+
+    const upload = await this.storage.createUploadUrl(key, dto.content_type, expiresAt);
+
+    await this.prisma.pendingUpload.create({
+      data: {
+        user_id: owner.userId,
+        organization_id: owner.organizationId,
+        storage_key: key,
+        filename: dto.filename,
+        content_type: dto.content_type,
+        expires_at: expiresAt,
+      },
+    });
+
+    return {
+      key,
+      upload_url: upload.url,
+      method: upload.method,
+      headers: upload.headers,
+      expires_at: expiresAt,
+    };
+  }
+
+  // Must be confirmed in the same workspace (or personal space) the upload was presigned for
+  async confirm(
+    owner: DocumentOwner,
+    dto: ConfirmUploadDto,
+    allowDuplicate = false,
+  ): Promise<UploadDocumentResponseDto> {
+    const pending = await this.prisma.pendingUpload.findUnique({
+      where: { storage_key: dto.key },
+    });
+
+    if (!pending || pending.user_id !== owner.userId || pending.organization_id !== owner.organizationId) {
+      throw new NotFoundException('Upload not found');
+    }
+
+    if (pending.expires_at < new Date()) {
+      throw new BadRequestException('Upload has expired');
+    }
+
+    const stored = await this.storage.stat(dto.key);
+    if (!stored) {
+      throw new BadRequestException('File has not been uploaded yet');
+    }
+
+    // Claim the upload so concurrent confirms can't register it twice
+    const { count } = await this.prisma.pendingUpload.deleteMany({ where: { id: pending.id } });
+    if (count === 0) {
+      throw new ConflictException('Upload is already being confirmed');
+    }
+
+    // A presigned S3 URL keeps working until it expires, so the document is kept under a key the client was never
+    // given, and whatever is uploaded to the presigned key from now on is never read
+    const storageKey = this.documentsService.createStorageKey(owner.userId);
+    let copied: StoredObjectInfo | null;
+    let checksum: string;
+    try {
+      await this.storage.copy(dto.key, storageKey);
+      await this.storage.delete(dto.key);
+
+      copied = await this.storage.stat(storageKey);
+      if (!copied) {
+        throw new BadRequestException('File has not been uploaded yet');
+      }
+      await this.validateObject(storageKey, copied.size, pending.content_type, copied.contentType);
+      checksum = await this.computeChecksum(storageKey);
+    } catch (error) {
+      await this.documentsService.deleteStoredFile(dto.key);
+      await this.documentsService.deleteStoredFile(storageKey);
+      throw error;
+    }
+
+    if (!allowDuplicate) {
+      const existing = await this.documentsService.findDuplicate(owner, checksum);
+      if (existing) {
+        await this.documentsService.deleteStoredFile(storageKey);
+        return this.documentsService.toDuplicateResponse(existing);
+      }
+    }
+
+    return this.documentsService.registerStoredFile(
+      owner,
+      {
+        storageKey,
+        filename: pending.filename,
+        contentType: pending.content_type,
+        size: copied.size,
+        checksum,
+      },
+      { allowDuplicate },
+    );
+  }
+
+  // Remove objects whose presigned upload was never confirmed
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async cleanupExpired() {
+    const expired = await this.prisma.pendingUpload.findMany({
+      where: { expires_at: { lt: new Date() } },
+      take: 100,
+    });
+
+    for (const upload of expired) {
+      try {
+        await this.storage.delete(upload.storage_key);
+        await this.prisma.pendingUpload.delete({ where: { id: upload.id } });
+      } catch (error) {
+        this.logger.warn(`Failed to clean up expired upload ${upload.storage_key}: ${error.message}`);
+      }
+    }
+
+    if (expired.length) {
+      this.logger.log(`Cleaned up ${expired.length} expired uploads`);
+    }
+  }
+
+  private async validateObject(key: string, size: number, contentType: string, storedContentType?: string) {
+    if (size === 0 || size > MAX_UPLOAD_SIZE) {
+      throw new BadRequestException(`File size must be between 1 byte and ${MAX_UPLOAD_SIZE} bytes`);
+    }
+
+    if (storedContentType && storedContentType !== contentType) {
+      throw new BadRequestException(`Uploaded file type ${storedContentType} does not match ${contentType}`);
+    }
+
+    const head = await this.readHead(key, Math.min(size, SNIFF_BYTES));
+    if (!matchesContentType(head, contentType)) {
+      throw new BadRequestException(`Uploaded file is not a valid ${contentType} file`);
+    }
+  }
+
+  private async readHead(key: string, length: number): Promise<Buffer> {
+    const stream = await this.storage.get(key, { start: 0, end: length - 1 });
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async computeChecksum(key: string): Promise<string> {
+    const hash = createHash('sha256');
+    for await (const chunk of await this.storage.get(key)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+}
@@ -0,0 +1,71 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  UseInterceptors,
+  UploadedFile,
+  ParseFilePipe,
+  MaxFileSizeValidator,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { DocumentVersionsService } from './document-versions.service';
+import { CompareVersionsQueryDto, DocumentVersionResponseDto } from './dto/document-version.dto';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { Audit } from '../audit/decorators/audit.decorator';
+import { AuditAction } from '@prisma/client';
+import { ALLOWED_CONTENT_TYPES, MAX_UPLOAD_SIZE } from './documents.constants';
+import { RateLimit } from '../usage/decorators/rate-limit.decorator';
+
+@Controller('documents/:id/versions')
+export class DocumentVersionsController {
+  constructor(private readonly documentVersionsService: DocumentVersionsService) {}
+
+  @Post()
+  @Scopes('documents:write')
+  @RateLimit('upload')
+  @Audit(AuditAction.DOCUMENT_UPLOAD, {
+    targetType: 'document',
+    targetParam: 'id',
+    fromResult: (result: DocumentVersionResponseDto) => ({ metadata: { version_number: result.version_number } }),
+  })
+  @UseInterceptors(FileInterceptor('file'))
+  async uploadVersion(
+    @CurrentUser('id') userId: string,
+    @Param('id') documentId: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_UPLOAD_SIZE })],
+        fileIsRequired: true,
+      }),
+    )
+    file: Express.Multer.File,
+  ) {
+    if (!ALLOWED_CONTENT_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Invalid file type: ${file.mimetype}. Allowed: ${ALLOWED_CONTENT_TYPES.join(', ')}`,
+      );
+    }
+
+    return this.documentVersionsService.createVersion(userId, documentId, file);
+  }
+
+  @Get()
+  @Scopes('documents:read')
+  async listVersions(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
+    return this.documentVersionsService.listVersions(userId, documentId);
+  }
+
+  @Get('compare')
+  @Scopes('documents:read')
+  async compareVersions(
+    @CurrentUser('id') userId: string,
+    @Param('id') documentId: string,
+    @Query() query: CompareVersionsQueryDto,
+  ) {
+    return this.documentVersionsService.compareVersions(userId, documentId, query.from, query.to);
+  }
+}
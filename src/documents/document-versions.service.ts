@@ -0,0 +1,178 @@
+import { Injectable, Logger, ConflictException, NotFoundException } from '@nestjs/common';
+import { DocumentStatus, DocumentVersion, Prisma, ProcessingTaskType, SharePermission } from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService, LogosUploadResponse } from '../logos/logos.service';
+import { StorageAdapter } from '../storage/storage.adapter';
+import { DocumentsService, UploadedFileData } from './documents.service';
+import { DocumentEventsService } from './document-events.service';
+import { CompareVersionsResponseDto, DocumentVersionResponseDto } from './dto/document-version.dto';
+import { diffSummaries } from './summary-diff.util';
+import { ProcessingTasksService } from '../processing-tasks/processing-tasks.service';
+import { UsageService } from '../usage/usage.service';
+
+@Injectable()
+export class DocumentVersionsService {
+  private readonly logger = new Logger(DocumentVersionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logosService: LogosService,
+    private readonly storage: StorageAdapter,
+    private readonly documentsService: DocumentsService,
+    private readonly documentEvents: DocumentEventsService,
+    private readonly processingTasks: ProcessingTasksService,
+    private readonly usageService: UsageService,
+  ) {}
+
+  async listVersions(userId: string, documentId: string): Promise<DocumentVersionResponseDto[]> {
+    const document = await this.documentsService.findOne(userId, documentId);
+
+    const versions = await this.prisma.documentVersion.findMany({
+      where: { document_id: documentId },
+      orderBy: { version_number: 'desc' },
+    });
+
+    return versions.map((version) => this.toResponse(version, document.current_version));
+  }
+
+  // Upload a new revision; it becomes the document's current version once stored and handed to Logos
+  async createVersion(userId: string, documentId: string, file: UploadedFileData): Promise<DocumentVersionResponseDto> {
+    const document = await this.documentsService.findOne(userId, documentId, SharePermission.MANAGE);
+    const checksum = createHash('sha256').update(file.buffer).digest('hex');
+
+    if (checksum === document.checksum) {
+      throw new ConflictException('New version is identical to the current version');
+    }
+
+    // Versions uploaded by collaborators still live under the owner's namespace and count against their storage.
+    // Checked again when the version is recorded, in case concurrent uploads took the space in the meantime.
+    await this.usageService.assertStorageAvailable(document.user_id, file.size, 0);
+    const storageKey = this.documentsService.createStorageKey(document.user_id);
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    let logosResponse: LogosUploadResponse;
+    try {
+      logosResponse = await this.processingTasks.track(
+        { type: ProcessingTaskType.UPLOAD, documentId },
+        () =>
+          this.logosService.uploadDocument({
+            filename: file.originalname,
+            contentType: file.mimetype,
+            size: file.size,
+            data: file.buffer,
+          }),
+        (response) => ({ logosId: response.id }),
+      );
+    } catch (error) {
+      await this.documentsService.deleteStoredFile(storageKey);
+      throw error;
+    }
+
+    const versionNumber = document.current_version + 1;
+    const owner = { userId: document.user_id, organizationId: document.organization_id };
+    // Another document may already be the canonical copy of this content
+    const canonical = await this.documentsService.findDuplicate(owner, checksum);
+
+    try {
+      const [version, updated] = await this.usageService.withinStorageQuota(
+        document.user_id,
+        file.size,
+        0,
+        async (tx) => [
+          await tx.documentVersion.create({
+            data: {
+              document_id: documentId,
+              version_number: versionNumber,
+              filename: file.originalname,
+              content_type: file.mimetype,
+              storage_key: storageKey,
+              file_size: file.size,
+              checksum,
+              logos_id: logosResponse.id,
+            },
+          }),
+          await tx.document.update({
+            where: { id: documentId },
+            data: {
+              filename: file.originalname,
+              content_type: file.mimetype,
+              storage_key: storageKey,
+              file_size: file.size,
+              checksum,
+              dedupe_key: canonical ? null : this.documentsService.dedupeKey(owner, checksum),
+              logos_id: logosResponse.id,
+              current_version: versionNumber,
+              status: DocumentStatus.PENDING,
+              summary: null,
+              classification: null,
+              error_message: null,
+              sync_attempts: 0,
+              next_sync_at: null,
+              last_event_at: null,
+            },
+          }),
+        ],
+      );
+
+      this.documentEvents.publish(updated);
+      return this.toResponse(version, versionNumber);
+    } catch (error) {
+      await this.documentsService.deleteStoredFile(storageKey);
+      await this.processingTasks
+        .track({ type: ProcessingTaskType.DELETE, documentId, logosId: logosResponse.id }, () =>
+          this.logosService.deleteDocument(logosResponse.id),
+        )
+        .catch((logosError) => this.logger.warn(`Failed to delete version from Logos: ${logosError.message}`));
+
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException('Another version was uploaded at the same time, please retry');
+      }
+      throw error;
+    }
+  }
+
+  async compareVersions(
+    userId: string,
+    documentId: string,
+    fromVersion: number,
+    toVersion: number,
+  ): Promise<CompareVersionsResponseDto> {
+    const document = await this.documentsService.findOne(userId, documentId);
+
+    const versions = await this.prisma.documentVersion.findMany({
+      where: { document_id: documentId, version_number: { in: [fromVersion, toVersion] } },
+    });
+
+    const from = versions.find((version) => version.version_number === fromVersion);
+    const to = versions.find((version) => version.version_number === toVersion);
+
+    if (!from || !to) {
+      throw new NotFoundException('Version not found');
+    }
+
+    return {
+      from: this.toResponse(from, document.current_version),
+      to: this.toResponse(to, document.current_version),
+      classification_changed: from.classification !== to.classification,
+      summary_diff: diffSummaries(from.summary, to.summary),
+    };
+  }
+
+  private toResponse(version: DocumentVersion, currentVersion: number): DocumentVersionResponseDto {
+    return {
+      id: version.id,
+      version_number: version.version_number,
+      is_current: version.version_number === currentVersion,
+      filename: version.filename,
+      content_type: version.content_type,
+      file_size: version.file_size,
+      logos_id: version.logos_id,
+      status: version.status,
+      summary: version.summary,
+      classification: version.classification,
+      error_message: version.error_message,
+      created_at: version.created_at,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+export const ALLOWED_CONTENT_TYPES = ['application/pdf', 'text/plain'];
+
+export const MAX_UPLOAD_SIZE = 50 * 1024 * 1024;
+
+// Bytes read from the start of an upload to check it really is the declared type
+export const SNIFF_BYTES = 1024;
+
+// Batch and archive ingestion
+export const MAX_BATCH_FILES = 50;
+export const ARCHIVE_CONTENT_TYPES = ['application/zip', 'application/x-zip-compressed'];
+export const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+export const MAX_ARCHIVE_ENTRIES = 200;
+export const MAX_ARCHIVE_UNCOMPRESSED_SIZE = 500 * 1024 * 1024;
+export const MAX_COMPRESSION_RATIO = 100;
@@ -0,0 +1,96 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DocumentsController } from './documents.controller';
+import { DocumentsService } from './documents.service';
+import { DocumentEventsService } from './document-events.service';
+import { DocumentUploadsService } from './document-uploads.service';
+import { DocumentBatchService } from './document-batch.service';
+import { AccessTokenPrisma, createAccessTokenApp, createAccessTokenPrisma } from '../../test/utils/access-tokens';
+
+describe('DocumentsController with personal access tokens', () => {
+  let prisma: AccessTokenPrisma;
+  let app: INestApplication<App>;
+  let documents: { findAllForUser: jest.Mock; delete: jest.Mock };
+
+  const get = (token: string) => request(app.getHttpServer()).get('/documents').set('Authorization', `Bearer ${token}`);
+
+  beforeEach(async () => {
+    prisma = createAccessTokenPrisma();
+    documents = {
+      findAllForUser: jest.fn(async () => ({ data: [], total: 0 })),
+      delete: jest.fn(async () => ({ message: 'Document deleted' })),
+    };
+
+    app = await createAccessTokenApp(prisma, {
+      controllers: [DocumentsController],
+      providers: [
+        { provide: DocumentsService, useValue: documents },
+        { provide: DocumentEventsService, useValue: {} },
+        { provide: DocumentUploadsService, useValue: {} },
+        { provide: DocumentBatchService, useValue: {} },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('lists documents with documents:read', async () => {
+    await get(await prisma.issue(['documents:read'])).expect(200);
+
+    expect(documents.findAllForUser).toHaveBeenCalledWith('user-1', null, expect.anything());
+  });
+
+  it('refuses to list documents without documents:read', async () => {
+    const { body } = await get(await prisma.issue(['chat'])).expect(403);
+
+    expect(body.message).toBe('Token is missing the documents:read scope');
+    expect(documents.findAllForUser).not.toHaveBeenCalled();
+  });
+
+  it('refuses to delete with documents:read only', async () => {
+    const token = await prisma.issue(['documents:read']);
+
+    await request(app.getHttpServer())
+      .delete('/documents/document-1')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+    await request(app.getHttpServer())
+      .delete('/documents/document-1')
+      .set('Authorization', `Bearer ${await prisma.issue(['documents:write'])}`)
+      .expect(200);
+
+    expect(documents.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects an expired token', async () => {
+    const token = await prisma.issue(['documents:read'], { expires_at: new Date(Date.now() - 1000) });
+
+    const { body } = await get(token).expect(401);
+
+    expect(body.message).toBe('Access token expired');
+  });
+
+  it('rejects unknown tokens and tokens outside the Authorization header', async () => {
+    await get('atlas_pat_unknown').expect(401);
+
+    const token = await prisma.issue(['documents:read']);
+    await request(app.getHttpServer()).get('/documents').query({ access_token: token }).expect(401);
+  });
+
+  it('records last use at most once a minute', async () => {
+    const token = await prisma.issue(['documents:read']);
+    const [stored] = prisma.personalAccessToken.rows;
+
+    await get(token).expect(200);
+    await get(token).expect(200);
+    expect(prisma.personalAccessToken.update).toHaveBeenCalledTimes(1);
+    expect(stored.last_used_at).toBeInstanceOf(Date);
+
+    stored.last_used_at = new Date(Date.now() - 61_000);
+    await get(token).expect(200);
+    expect(prisma.personalAccessToken.update).toHaveBeenCalledTimes(2);
+  });
+});
@@ -4,27 +4,96 @@ import {
   Post,
   Delete,
   Param,
+  Query,
+  Headers,
+  Req,
+  Res,
   UseInterceptors,
   UploadedFile,
+  UploadedFiles,
   ParseFilePipe,
   MaxFileSizeValidator,
   BadRequestException,
+  Body,
+  DefaultValuePipe,
+  ParseBoolPipe,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
+import { Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { AuditAction, WorkspaceRole } from '@prisma/client';
 import { DocumentsService } from './documents.service';
+import { DocumentUploadsService } from './document-uploads.service';
+import { DocumentBatchService } from './document-batch.service';
+import { DocumentEventsService, DocumentStatusEvent } from './document-events.service';
+import { SizeCappedMemoryStorage } from './size-capped-memory-storage';
+import { ByteRange } from '../storage/storage.adapter';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { Scopes } from '../auth/decorators/scopes.decorator';
+import { CurrentWorkspace } from '../organizations/decorators/current-workspace.decorator';
+import { WorkspaceRoles } from '../organizations/decorators/workspace-roles.decorator';
+import { ActiveWorkspace } from '../organizations/guards/workspace.guard';
+import { Audit } from '../audit/decorators/audit.decorator';
+import { RateLimit } from '../usage/decorators/rate-limit.decorator';
+import { UploadDocumentResponseDto } from './dto/document-response.dto';
+import { ListDocumentsQueryDto } from './dto/list-documents-query.dto';
+import { ConfirmUploadDto, PresignUploadDto } from './dto/presigned-upload.dto';
+import { BatchUploadResponseDto } from './dto/batch-upload.dto';
+import {
+  ALLOWED_CONTENT_TYPES,
+  ARCHIVE_CONTENT_TYPES,
+  MAX_ARCHIVE_SIZE,
+  MAX_BATCH_FILES,
+  MAX_UPLOAD_SIZE,
+} from './documents.constants';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Inside a workspace (X-Workspace-Id) documents are created for the workspace, which viewers can't do
+const UPLOAD_ROLES = [WorkspaceRole.OWNER, WorkspaceRole.EDITOR];
+
+const auditUpload = {
+  targetType: 'document',
+  fromResult: (result: UploadDocumentResponseDto) => ({
+    targetId: result.id,
+    metadata: { duplicate: result.duplicate },
+  }),
+};
+
+const auditBatchUpload = {
+  fromResult: (result: BatchUploadResponseDto) => ({
+    metadata: {
+      created: result.created,
+      duplicate: result.duplicate,
+      rejected: result.rejected,
+      failed: result.failed,
+      document_ids: result.results.flatMap((entry) => entry.document_id ?? []),
+    },
+  }),
+};
 
 @Controller('documents')
 export class DocumentsController {
-  constructor(private readonly documentsService: DocumentsService) {}
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly documentEvents: DocumentEventsService,
+    private readonly documentUploadsService: DocumentUploadsService,
+    private readonly documentBatchService: DocumentBatchService,
+  ) {}
 
   @Post('upload')
+  @Scopes('documents:write')
+  @RateLimit('upload')
+  @Audit(AuditAction.DOCUMENT_UPLOAD, auditUpload)
+  @WorkspaceRoles(...UPLOAD_ROLES)
   @UseInterceptors(FileInterceptor('file'))
   async uploadDocument(
     @CurrentUser('id') userId: string,
+    @CurrentWorkspace('id') workspaceId: string | null,
+    @Query('allowDuplicate', new DefaultValuePipe(false), ParseBoolPipe) allowDuplicate: boolean,
     @UploadedFile(
       new ParseFilePipe({
-        validators: [new MaxFileSizeValidator({ maxSize: 50 * 1024 * 1024 })],
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_UPLOAD_SIZE })],
         fileIsRequired: true,
       }),
     )
@@ -33,35 +102,215 @@ export class DocumentsController {
     if (!userId) {
       throw new BadRequestException('User ID is required');
     }
-    const allowedTypes = ['application/pdf', 'text/plain'];
-    if (!allowedTypes.includes(file.mimetype)) {
-      throw new BadRequestException(`Invalid file type: ${file.mimetype}. Allowed: ${allowedTypes.join(', ')}`);
+    if (!ALLOWED_CONTENT_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(
+        `Invalid file type: ${file.mimetype}. Allowed: ${ALLOWED_CONTENT_TYPES.join(', ')}`,
+      );
+    }
+
+    return this.documentsService.uploadDocument({ userId, organizationId: workspaceId }, file, allowDuplicate);
+  }
+
+  // A file over MAX_UPLOAD_SIZE is rejected on its own rather than failing the batch. Parts are still cut off at
+  // MAX_ARCHIVE_SIZE, which does fail the whole request, so one request can't stream forever.
+  @Post('upload/batch')
+  @Scopes('documents:write')
+  @RateLimit('upload')
+  @Audit(AuditAction.DOCUMENT_UPLOAD, auditBatchUpload)
+  @WorkspaceRoles(...UPLOAD_ROLES)
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_BATCH_FILES, {
+      storage: new SizeCappedMemoryStorage(MAX_UPLOAD_SIZE),
+      limits: { fileSize: MAX_ARCHIVE_SIZE },
+    }),
+  )
+  async uploadBatch(
+    @CurrentUser('id') userId: string,
+    @CurrentWorkspace('id') workspaceId: string | null,
+    @Query('allowDuplicate', new DefaultValuePipe(false), ParseBoolPipe) allowDuplicate: boolean,
+    @UploadedFiles() files: Express.Multer.File[],
+  ): Promise<BatchUploadResponseDto> {
+    if (!files?.length) {
+      throw new BadRequestException('At least one file is required');
+    }
+
+    return this.documentBatchService.uploadBatch({ userId, organizationId: workspaceId }, files, allowDuplicate);
+  }
+
+  @Post('upload/archive')
+  @Scopes('documents:write')
+  @RateLimit('upload')
+  @Audit(AuditAction.DOCUMENT_UPLOAD, auditBatchUpload)
+  @WorkspaceRoles(...UPLOAD_ROLES)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_ARCHIVE_SIZE } }))
+  async uploadArchive(
+    @CurrentUser('id') userId: string,
+    @CurrentWorkspace('id') workspaceId: string | null,
+    @Query('allowDuplicate', new DefaultValuePipe(false), ParseBoolPipe) allowDuplicate: boolean,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_ARCHIVE_SIZE })],
+        fileIsRequired: true,
+      }),
+    )
+    file: Express.Multer.File,
+  ): Promise<BatchUploadResponseDto> {
+    if (!ARCHIVE_CONTENT_TYPES.includes(file.mimetype) && !file.originalname.toLowerCase().endsWith('.zip')) {
+      throw new BadRequestException(`Invalid archive type: ${file.mimetype}. Only ZIP archives are supported`);
     }
 
-    return this.documentsService.uploadDocument(userId, file);
+    return this.documentBatchService.uploadArchive({ userId, organizationId: workspaceId }, file, allowDuplicate);
+  }
+
+  @Post('presign')
+  @Scopes('documents:write')
+  @RateLimit('upload')
+  @WorkspaceRoles(...UPLOAD_ROLES)
+  async presignUpload(
+    @CurrentUser('id') userId: string,
+    @CurrentWorkspace('id') workspaceId: string | null,
+    @Body() dto: PresignUploadDto,
+  ) {
+    return this.documentUploadsService.presign({ userId, organizationId: workspaceId }, dto);
+  }
+
+  @Post()
+  @Scopes('documents:write')
+  @RateLimit('upload')
+  @Audit(AuditAction.DOCUMENT_UPLOAD, auditUpload)
+  @WorkspaceRoles(...UPLOAD_ROLES)
+  async confirmUpload(
+    @CurrentUser('id') userId: string,
+    @CurrentWorkspace('id') workspaceId: string | null,
+    @Query('allowDuplicate', new DefaultValuePipe(false), ParseBoolPipe) allowDuplicate: boolean,
+    @Body() dto: ConfirmUploadDto,
+  ) {
+    return this.documentUploadsService.confirm({ userId, organizationId: workspaceId }, dto, allowDuplicate);
   }
 
   @Get()
-  async findAll(@CurrentUser('id') userId: string) {
-    return this.documentsService.findAllForUser(userId);
+  @Scopes('documents:read')
+  async findAll(
+    @CurrentUser('id') userId: string,
+    @CurrentWorkspace() workspace: ActiveWorkspace | null,
+    @Query() query: ListDocumentsQueryDto,
+  ) {
+    return this.documentsService.findAllForUser(userId, workspace, query);
+  }
+
+  @Get('duplicates')
+  @Scopes('documents:read')
+  async findDuplicates(@CurrentUser('id') userId: string, @CurrentWorkspace('id') workspaceId: string | null) {
+    return this.documentsService.findDuplicateGroups({ userId, organizationId: workspaceId });
+  }
+
+  // Declared before ':id' so it isn't captured as a document id
+  @Get('events')
+  @Scopes('documents:read')
+  streamEvents(
+    @CurrentUser('id') userId: string,
+    @Headers('last-event-id') lastEventId: string | undefined,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    // Set SSE headers
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const send = (event: DocumentStatusEvent) => {
+      const { id, user_id: _userId, audience: _audience, ...data } = event;
+      res.write(`id: ${id}\nevent: status\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Replay and subscribe happen synchronously, so no event can slip in between them
+    if (lastEventId) {
+      const missed = this.documentEvents.replaySince(userId, lastEventId);
+      if (missed) {
+        missed.forEach(send);
+      } else {
+        // Too far behind to replay; the client should refetch GET /documents
+        res.write(`event: resync\ndata: {}\n\n`);
+      }
+    }
+
+    const subscription = this.documentEvents.stream(userId).subscribe(send);
+    const heartbeat = setInterval(() => res.write(`: heartbeat\n\n`), HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      subscription.unsubscribe();
+    });
   }
 
   @Get(':id')
+  @Scopes('documents:read')
   async findOne(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
     return this.documentsService.findOne(userId, documentId);
   }
 
   @Get(':id/status')
+  @Scopes('documents:read')
   async getStatus(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
     return this.documentsService.getStatus(userId, documentId);
   }
 
+  @Get(':id/download')
+  @Scopes('documents:read')
+  @Audit(AuditAction.DOCUMENT_DOWNLOAD, { targetType: 'document', targetParam: 'id' })
+  async download(
+    @CurrentUser('id') userId: string,
+    @Param('id') documentId: string,
+    @Req() req: Request,
+    @Res() res: Response,
+  ) {
+    const { document, storageKey, size } = await this.documentsService.getDownload(userId, documentId);
+
+    res.attachment(document.filename);
+    res.setHeader('Content-Type', document.content_type);
+    res.setHeader('Accept-Ranges', 'bytes');
+
+    // Single byte ranges are honoured; malformed or multi-range requests get the full file
+    let range: ByteRange | undefined;
+    const requested = req.headers.range ? req.range(size, { combine: true }) : undefined;
+
+    if (requested === -1) {
+      res.status(416).setHeader('Content-Range', `bytes */${size}`);
+      res.end();
+      return;
+    }
+
+    if (Array.isArray(requested) && requested.type === 'bytes' && requested.length === 1) {
+      range = { start: requested[0].start, end: requested[0].end };
+      res.status(206);
+      res.setHeader('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    }
+
+    res.setHeader('Content-Length', range ? range.end - range.start + 1 : size);
+
+    // pipeline() also destroys the storage stream (e.g. an S3 body) when the client aborts; that is not an error
+    const stream = await this.documentsService.openFile(storageKey, range);
+    await pipeline(stream, res).catch(() => res.destroy());
+  }
+
   @Post(':id/sync')
+  @Scopes('documents:write')
+  @Audit(AuditAction.DOCUMENT_SYNC, { targetType: 'document', targetParam: 'id' })
   async syncDocument(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
     return this.documentsService.syncDocument(userId, documentId);
   }
 
+  @Post(':id/reprocess')
+  @Scopes('documents:write')
+  @Audit(AuditAction.DOCUMENT_REPROCESS, { targetType: 'document', targetParam: 'id' })
+  async reprocess(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
+    return this.documentsService.reprocess(userId, documentId);
+  }
+
   @Delete(':id')
+  @Scopes('documents:write')
+  @Audit(AuditAction.DOCUMENT_DELETE, { targetType: 'document', targetParam: 'id' })
   async delete(@CurrentUser('id') userId: string, @Param('id') documentId: string) {
     return this.documentsService.delete(userId, documentId);
   }
@@ -1,12 +1,29 @@
 import { Module } from '@nestjs/common';
 import { DocumentsController } from './documents.controller';
 import { DocumentsService } from './documents.service';
+import { DocumentEventsService } from './document-events.service';
+import { DocumentUploadsService } from './document-uploads.service';
+import { DocumentBatchService } from './document-batch.service';
+import { DocumentVersionsController } from './document-versions.controller';
+import { DocumentVersionsService } from './document-versions.service';
+import { DocumentSharesController } from './document-shares.controller';
+import { DocumentSharesService } from './document-shares.service';
 import { LogosModule } from '../logos/logos.module';
+import { AccessModule } from '../access/access.module';
+import { ProcessingTasksModule } from '../processing-tasks/processing-tasks.module';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
-  imports: [LogosModule],
-  controllers: [DocumentsController],
-  providers: [DocumentsService],
-  exports: [DocumentsService],
+  imports: [LogosModule, AccessModule, ProcessingTasksModule, UsageModule],
+  controllers: [DocumentsController, DocumentVersionsController, DocumentSharesController],
+  providers: [
+    DocumentsService,
+    DocumentEventsService,
+    DocumentUploadsService,
+    DocumentBatchService,
+    DocumentVersionsService,
+    DocumentSharesService,
+  ],
+  exports: [DocumentsService, DocumentEventsService],
 })
 export class DocumentsModule {}
@@ -1,7 +1,70 @@
-import { Injectable, NotFoundException, ForbiddenException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ConflictException, Logger } from '@nestjs/common';
 import { PrismaService } from '../database/prisma.service';
-import { LogosService } from '../logos/logos.service';
-import { DocumentStatus } from '@prisma/client';
+import { LogosService, LogosStatusResponse, LogosUploadResponse } from '../logos/logos.service';
+import { Document, DocumentStatus, Prisma, ProcessingTaskType, SharePermission } from '@prisma/client';
+import { createHash, randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { StorageAdapter, ByteRange } from '../storage/storage.adapter';
+import { ListDocumentsQueryDto, DocumentSortField } from './dto/list-documents-query.dto';
+import { DocumentPageDto, DuplicateGroupDto, UploadDocumentResponseDto } from './dto/document-response.dto';
+import { DocumentEventsService } from './document-events.service';
+import { DocumentAccessLevel, DocumentAccessService, WORKSPACE_ACCESS } from '../access/document-access.service';
+import { ActiveWorkspace } from '../organizations/guards/workspace.guard';
+import { ProcessingTasksService } from '../processing-tasks/processing-tasks.service';
+import { UsageService } from '../usage/usage.service';
+
+export interface ProcessingResult {
+  status: DocumentStatus;
+  summary?: string | null;
+  classification?: string | null;
+  error_message?: string | null;
+}
+
+// Ordering used to keep out-of-order webhook events from moving a document backwards
+const STATUS_RANK: Record<DocumentStatus, number> = {
+  [DocumentStatus.PENDING]: 0,
+  [DocumentStatus.PROCESSING]: 1,
+  [DocumentStatus.COMPLETED]: 2,
+  [DocumentStatus.FAILED]: 2,
+};
+
+export type UploadedFileData = Pick<Express.Multer.File, 'originalname' | 'mimetype' | 'size' | 'buffer'>;
+
+// Who a new document belongs to: the uploader personally, or the active workspace
+export interface DocumentOwner {
+  userId: string;
+  organizationId: string | null;
+}
+
+export interface StoredFile {
+  storageKey: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  checksum: string;
+}
+
+// The sort a cursor was issued for is part of it, so it can't be replayed against another ordering
+interface DocumentCursor {
+  sort_by: DocumentSortField;
+  sort_order: 'asc' | 'desc';
+  value: string;
+  id: string;
+}
+
+const DOCUMENT_LIST_SELECT = {
+  id: true,
+  filename: true,
+  content_type: true,
+  file_size: true,
+  current_version: true,
+  status: true,
+  summary: true,
+  classification: true,
+  error_message: true,
+  created_at: true,
+  updated_at: true,
+} satisfies Prisma.DocumentSelect;
 
 @Injectable()
 export class DocumentsService {
@@ -10,51 +73,262 @@ export class DocumentsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly logosService: LogosService,
+    private readonly documentEvents: DocumentEventsService,
+    private readonly storage: StorageAdapter,
+    private readonly documentAccess: DocumentAccessService,
+    private readonly processingTasks: ProcessingTasksService,
+    private readonly usageService: UsageService,
   ) {}
 
-  async uploadDocument(userId: string, file: Express.Multer.File) {
-    // Upload to Logos service
-    const logosResponse = await this.logosService.uploadDocument(file);
+  async uploadDocument(
+    owner: DocumentOwner,
+    file: UploadedFileData,
+    allowDuplicate = false,
+  ): Promise<UploadDocumentResponseDto> {
+    const checksum = createHash('sha256').update(file.buffer).digest('hex');
 
-    // Create local document record
-    const document = await this.prisma.document.create({
-      data: {
-        user_id: userId,
+    if (!allowDuplicate) {
+      const existing = await this.findDuplicate(owner, checksum);
+      if (existing) {
+        return this.toDuplicateResponse(existing);
+      }
+    }
+
+    // Keep the original file so it can be downloaded later
+    const storageKey = this.createStorageKey(owner.userId);
+    await this.storage.put(storageKey, file.buffer, file.mimetype);
+
+    return this.registerStoredFile(
+      owner,
+      {
+        storageKey,
         filename: file.originalname,
-        content_type: file.mimetype,
-        logos_id: logosResponse.id,
-        status: DocumentStatus.PENDING,
+        contentType: file.mimetype,
+        size: file.size,
+        checksum,
       },
+      { data: file.buffer, allowDuplicate },
+    );
+  }
+
+  createStorageKey(userId: string): string {
+    return `documents/${userId}/${randomUUID()}`;
+  }
+
+  // The owner's canonical document with this content, if any
+  async findDuplicate(owner: DocumentOwner, checksum: string) {
+    return this.prisma.document.findUnique({
+      where: { dedupe_key: this.dedupeKey(owner, checksum) },
     });
+  }
+
+  // Deduplication is scoped to the owner, so the same file may exist once personally and once per workspace
+  dedupeKey(owner: DocumentOwner, checksum: string): string {
+    return owner.organizationId ? `org:${owner.organizationId}:${checksum}` : `user:${owner.userId}:${checksum}`;
+  }
+
+  toDuplicateResponse(document: Document): UploadDocumentResponseDto {
+    return {
+      id: document.id,
+      logos_id: document.logos_id,
+      message: 'An identical document already exists',
+      duplicate: true,
+    };
+  }
+
+  // Hand an already stored original to Logos and create the local record.
+  // The stored object is removed if it exceeds the owner's quota or Logos rejects it, so storage never holds orphans.
+  async registerStoredFile(
+    owner: DocumentOwner,
+    file: StoredFile,
+    options: { data?: Buffer; allowDuplicate?: boolean } = {},
+  ): Promise<UploadDocumentResponseDto> {
+    let logosResponse: LogosUploadResponse;
+    try {
+      // Checked here, once the size is known, so direct, presigned and batch uploads are all covered.
+      // This only fails early; the check that counts is made again when the record is created.
+      await this.usageService.assertStorageAvailable(owner.userId, file.size);
+      const data = options.data ?? (await this.storage.get(file.storageKey));
+      logosResponse = await this.processingTasks.track(
+        { type: ProcessingTaskType.UPLOAD },
+        () =>
+          this.logosService.uploadDocument({
+            filename: file.filename,
+            contentType: file.contentType,
+            size: file.size,
+            data,
+          }),
+        (response) => ({ logosId: response.id }),
+      );
+    } catch (error) {
+      await this.deleteStoredFile(file.storageKey);
+      throw error;
+    }
+
+    // Create local document record, unless concurrent uploads took the quota in the meantime
+    let document: Document;
+    try {
+      document = await this.usageService.withinStorageQuota(owner.userId, file.size, 1, (tx) =>
+        tx.document.create({
+          data: {
+            user_id: owner.userId,
+            organization_id: owner.organizationId,
+            filename: file.filename,
+            content_type: file.contentType,
+            storage_key: file.storageKey,
+            file_size: file.size,
+            checksum: file.checksum,
+            dedupe_key: options.allowDuplicate ? null : this.dedupeKey(owner, file.checksum),
+            logos_id: logosResponse.id,
+            status: DocumentStatus.PENDING,
+            versions: {
+              create: {
+                version_number: 1,
+                filename: file.filename,
+                content_type: file.contentType,
+                storage_key: file.storageKey,
+                file_size: file.size,
+                checksum: file.checksum,
+                logos_id: logosResponse.id,
+              },
+            },
+          },
+        }),
+      );
+    } catch (error) {
+      // A concurrent upload of the same content won; undo ours and return theirs
+      const existing =
+        error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+          ? await this.findDuplicate(owner, file.checksum)
+          : null;
+
+      // Otherwise, e.g. over the quota, the upload is undone all the same
+      await this.deleteStoredFile(file.storageKey);
+      await this.processingTasks
+        .track({ type: ProcessingTaskType.DELETE, logosId: logosResponse.id }, () =>
+          this.logosService.deleteDocument(logosResponse.id),
+        )
+        .catch((logosError) => this.logger.warn(`Failed to delete rejected upload from Logos: ${logosError.message}`));
+
+      if (!existing) {
+        throw error;
+      }
+      return this.toDuplicateResponse(existing);
+    }
+
+    await this.processingTasks.linkDocument(logosResponse.id, document.id);
+
+    this.documentEvents.publish(document);
 
     return {
       id: document.id,
       logos_id: logosResponse.id,
       message: logosResponse.message,
+      duplicate: false,
     };
   }
 
-  async findAllForUser(userId: string) {
-    return this.prisma.document.findMany({
-      where: { user_id: userId },
-      orderBy: { created_at: 'desc' },
+  // Groups of the owner's documents sharing the same content
+  async findDuplicateGroups(owner: DocumentOwner): Promise<DuplicateGroupDto[]> {
+    const ownerFilter = this.ownerFilter(owner);
+    const groups = await this.prisma.document.groupBy({
+      by: ['checksum'],
+      where: { ...ownerFilter, checksum: { not: null } },
+      _count: { _all: true },
+      having: { checksum: { _count: { gt: 1 } } },
+    });
+
+    if (!groups.length) {
+      return [];
+    }
+
+    const documents = await this.prisma.document.findMany({
+      where: { ...ownerFilter, checksum: { in: groups.map((group) => group.checksum!) } },
+      select: { ...DOCUMENT_LIST_SELECT, checksum: true },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return groups.map((group) => {
+      const members = documents.filter((document) => document.checksum === group.checksum);
+      return {
+        checksum: group.checksum!,
+        count: group._count._all,
+        documents: members.map(({ checksum: _checksum, ...document }) => document),
+      };
     });
   }
 
-  async findOne(userId: string, documentId: string) {
-    const document = await this.prisma.document.findUnique({
-      where: { id: documentId },
+  // Lists the active workspace's documents, or the user's personal and shared documents outside a workspace
+  async findAllForUser(
+    userId: string,
+    workspace: ActiveWorkspace | null,
+    query: ListDocumentsQueryDto,
+  ): Promise<DocumentPageDto> {
+    const sortBy = query.sort_by ?? 'created_at';
+    const sortOrder = query.sort_order ?? 'desc';
+    const limit = query.limit ?? 20;
+
+    const where = this.buildListFilter(userId, workspace, query);
+    const pageWhere: Prisma.DocumentWhereInput = query.cursor
+      ? { AND: [where, this.buildCursorFilter(sortBy, sortOrder, this.decodeCursor(query.cursor, sortBy, sortOrder))] }
+      : where;
+
+    // Fetch one extra row to know whether another page exists
+    const [rows, total] = await Promise.all([
+      this.prisma.document.findMany({
+        where: pageWhere,
+        select: {
+          ...DOCUMENT_LIST_SELECT,
+          user_id: true,
+          organization_id: true,
+          shares: { where: { user_id: userId }, select: { permission: true } },
+        },
+        orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+        take: limit + 1,
+      }),
+      this.prisma.document.count({ where }),
+    ]);
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    const next_cursor = rows.length > limit && last ? this.encodeCursor(sortBy, sortOrder, last) : null;
+
+    const items = page.map(({ user_id, organization_id, shares, ...document }) => {
+      if (workspace && organization_id === workspace.id) {
+        return { ...document, shared: false, permission: WORKSPACE_ACCESS[workspace.role] };
+      }
+
+      const shared = user_id !== userId || organization_id !== null;
+      const permission: DocumentAccessLevel = shared ? shares[0].permission : 'OWNER';
+      return { ...document, shared, permission };
     });
 
-    if (!document) {
-      throw new NotFoundException('Document not found');
+    return { items, next_cursor, total };
+  }
+
+  // Load a document the user may act on at the `required` level; shares count alongside ownership
+  async findOne(userId: string, documentId: string, required: DocumentAccessLevel = SharePermission.VIEW) {
+    const { document } = await this.documentAccess.authorize(userId, documentId, required);
+    return document;
+  }
+
+  async getDownload(userId: string, documentId: string) {
+    const document = await this.findOne(userId, documentId);
+
+    if (!document.storage_key) {
+      throw new NotFoundException('Original file is not available for this document');
     }
 
-    if (document.user_id !== userId) {
-      throw new ForbiddenException('Access denied');
+    const stored = await this.storage.stat(document.storage_key);
+    if (!stored) {
+      throw new NotFoundException('Original file is missing from storage');
     }
 
-    return document;
+    return { document, storageKey: document.storage_key, size: stored.size };
+  }
+
+  async openFile(storageKey: string, range?: ByteRange): Promise<Readable> {
+    return this.storage.get(storageKey, range);
   }
 
   async getStatus(userId: string, documentId: string) {
@@ -71,19 +345,15 @@ export class DocumentsService {
     }
 
     // Fetch fresh status from Logos
-    const logosStatus = await this.logosService.getDocumentStatus(document.logos_id);
+    const logosId = document.logos_id;
+    const logosStatus = await this.processingTasks.track(
+      { type: ProcessingTaskType.STATUS_POLL, documentId, logosId },
+      () => this.logosService.getDocumentStatus(logosId),
+    );
 
     // Update local record if status changed
     if (logosStatus.status !== document.status) {
-      await this.prisma.document.update({
-        where: { id: documentId },
-        data: {
-          status: logosStatus.status as DocumentStatus,
-          summary: logosStatus.summary,
-          classification: logosStatus.classification,
-          error_message: logosStatus.error_message,
-        },
-      });
+      await this.applyProcessingResult(documentId, this.toProcessingResult(logosStatus));
     }
 
     return {
@@ -102,39 +372,381 @@ export class DocumentsService {
       throw new NotFoundException('Document has no Logos reference');
     }
 
-    const logosDoc = await this.logosService.getDocument(document.logos_id);
+    const logosId = document.logos_id;
+    const logosDoc = await this.processingTasks.track({ type: ProcessingTaskType.SYNC, documentId, logosId }, () =>
+      this.logosService.getDocument(logosId),
+    );
 
     // Update local record
-    const updated = await this.prisma.document.update({
-      where: { id: documentId },
+    return this.applyProcessingResult(documentId, this.toProcessingResult(logosDoc));
+  }
+
+  // Single write path for processing state, shared by polling, sync and background reconciliation. Polled states
+  // carry no timestamp, so a result is only applied when it doesn't move the document backwards: a poll that
+  // raced a webhook can't turn COMPLETED back into PROCESSING. Returns the document as stored afterwards.
+  async applyProcessingResult(documentId: string, result: ProcessingResult) {
+    const data = {
+      status: result.status,
+      summary: result.summary,
+      classification: result.classification,
+      error_message: result.error_message,
+    };
+    const notBehind = this.notBehind(result.status);
+
+    const { count } = await this.prisma.document.updateMany({ where: { id: documentId, ...notBehind }, data });
+    const document = await this.prisma.document.findUniqueOrThrow({ where: { id: documentId } });
+
+    if (count === 0) {
+      return document;
+    }
+
+    // Keep the current version's own record in step
+    const currentVersion = { document_id: documentId, version_number: document.current_version };
+    await this.prisma.documentVersion.updateMany({ where: { ...currentVersion, ...notBehind }, data });
+    await this.markProcessed(currentVersion, result.status, new Date());
+
+    this.documentEvents.publish(document);
+    return document;
+  }
+
+  // Same as applyProcessingResult for a version that is no longer current, so it leaves the document alone.
+  // Returns whether the version changed.
+  async applyVersionResult(versionId: string, result: ProcessingResult): Promise<boolean> {
+    const { count } = await this.prisma.documentVersion.updateMany({
+      where: { id: versionId, ...this.notBehind(result.status) },
       data: {
-        status: logosDoc.status as DocumentStatus,
-        summary: logosDoc.summary,
-        classification: logosDoc.classification,
-        error_message: logosDoc.error_message,
+        status: result.status,
+        summary: result.summary,
+        classification: result.classification,
+        error_message: result.error_message,
       },
     });
 
-    return updated;
+    if (count) {
+      await this.markProcessed({ id: versionId }, result.status, new Date());
+    }
+    return count > 0;
   }
 
-  async delete(userId: string, documentId: string) {
-    const document = await this.findOne(userId, documentId);
+  private notBehind(status: DocumentStatus) {
+    return {
+      status: { in: Object.values(DocumentStatus).filter((current) => STATUS_RANK[current] <= STATUS_RANK[status]) },
+    };
+  }
+
+  // Apply an event for the version identified by `logosId` that happened at `occurredAt`, unless that
+  // version has already moved past it. The guard is part of the UPDATE so concurrent deliveries can't race.
+  async applyProcessingEvent(
+    logosId: string,
+    result: ProcessingResult,
+    occurredAt: Date,
+  ): Promise<'applied' | 'stale' | 'unknown_document'> {
+    const version = await this.prisma.documentVersion.findUnique({
+      where: { logos_id: logosId },
+      select: { id: true, document_id: true },
+    });
+
+    if (!version) {
+      return 'unknown_document';
+    }
+
+    const rank = STATUS_RANK[result.status];
+    const statuses = Object.values(DocumentStatus);
+    const notStale = {
+      OR: [
+        { status: { in: statuses.filter((status) => STATUS_RANK[status] < rank) } },
+        {
+          status: { in: statuses.filter((status) => STATUS_RANK[status] === rank) },
+          OR: [{ last_event_at: null }, { last_event_at: { lt: occurredAt } }],
+        },
+      ],
+    };
+    const data = {
+      status: result.status,
+      summary: result.summary,
+      classification: result.classification,
+      error_message: result.error_message,
+      last_event_at: occurredAt,
+    };
+
+    const { count } = await this.prisma.documentVersion.updateMany({
+      where: { id: version.id, ...notStale },
+      data,
+    });
+
+    if (count === 0) {
+      return 'stale';
+    }
+
+    await this.markProcessed({ id: version.id }, result.status, occurredAt);
 
-    // Delete from Logos if it has a reference
-    if (document.logos_id) {
-      try {
-        await this.logosService.deleteDocument(document.logos_id);
-      } catch (error) {
-        this.logger.warn(`Failed to delete document from Logos: ${error.message}`);
+    // Mirror onto the document only while this is still its current version
+    const mirrored = await this.prisma.document.updateMany({
+      where: { id: version.document_id, logos_id: logosId },
+      data,
+    });
+
+    if (mirrored.count) {
+      const document = await this.prisma.document.findUnique({ where: { id: version.document_id } });
+      if (document) {
+        this.documentEvents.publish(document);
       }
     }
 
-    // Delete local record
-    await this.prisma.document.delete({
-      where: { id: documentId },
+    return 'applied';
+  }
+
+  // Record when a submission first reached a terminal status, for processing time stats
+  private async markProcessed(where: Prisma.DocumentVersionWhereInput, status: DocumentStatus, at: Date) {
+    if (STATUS_RANK[status] < STATUS_RANK[DocumentStatus.COMPLETED]) {
+      return;
+    }
+
+    await this.prisma.documentVersion.updateMany({
+      where: { ...where, processed_at: null },
+      data: { processed_at: at },
     });
+  }
+
+  // Hand the current version's original to Logos again, e.g. after processing failed.
+  // The version gets a new Logos id, so late events for the old one are ignored.
+  async reprocess(userId: string, documentId: string) {
+    const document = await this.findOne(userId, documentId, SharePermission.MANAGE);
+
+    if (STATUS_RANK[document.status] < STATUS_RANK[DocumentStatus.COMPLETED]) {
+      throw new ConflictException('Document is still being processed');
+    }
+
+    if (!document.storage_key) {
+      throw new BadRequestException('Original file is not available for this document');
+    }
+
+    const stored = await this.storage.stat(document.storage_key);
+    if (!stored) {
+      throw new NotFoundException('Original file is missing from storage');
+    }
+
+    const storageKey = document.storage_key;
+    const previousLogosId = document.logos_id;
+    const logosResponse = await this.processingTasks.track(
+      { type: ProcessingTaskType.REPROCESS, documentId, logosId: previousLogosId },
+      async () =>
+        this.logosService.uploadDocument({
+          filename: document.filename,
+          contentType: document.content_type,
+          size: stored.size,
+          data: await this.storage.get(storageKey),
+        }),
+      (response) => ({ logosId: response.id }),
+    );
+
+    const reset = {
+      logos_id: logosResponse.id,
+      status: DocumentStatus.PENDING,
+      summary: null,
+      classification: null,
+      error_message: null,
+      last_event_at: null,
+    };
+
+    let updated: Document;
+    try {
+      // submitted_at is when the reconciler starts counting towards the max processing age
+      [, updated] = await this.prisma.$transaction([
+        this.prisma.documentVersion.updateMany({
+          where: { document_id: documentId, version_number: document.current_version },
+          data: { ...reset, submitted_at: new Date(), processed_at: null },
+        }),
+        this.prisma.document.update({
+          where: { id: documentId },
+          data: { ...reset, sync_attempts: 0, next_sync_at: null },
+        }),
+      ]);
+    } catch (error) {
+      // Nothing points at the new Logos document yet, so don't leave it behind
+      await this.processingTasks
+        .track({ type: ProcessingTaskType.DELETE, documentId, logosId: logosResponse.id }, () =>
+          this.logosService.deleteDocument(logosResponse.id),
+        )
+        .catch((deleteError) => this.logger.warn(`Failed to delete new Logos document: ${deleteError.message}`));
+      throw error;
+    }
+
+    this.documentEvents.publish(updated);
+
+    if (previousLogosId) {
+      await this.processingTasks
+        .track({ type: ProcessingTaskType.DELETE, documentId, logosId: previousLogosId }, () =>
+          this.logosService.deleteDocument(previousLogosId),
+        )
+        .catch((error) => this.logger.warn(`Failed to delete previous Logos document: ${error.message}`));
+    }
+
+    return { id: documentId, logos_id: logosResponse.id, status: updated.status, message: logosResponse.message };
+  }
+
+  toProcessingResult(logosStatus: LogosStatusResponse): ProcessingResult {
+    return {
+      status: logosStatus.status as DocumentStatus,
+      summary: logosStatus.summary,
+      classification: logosStatus.classification,
+      error_message: logosStatus.error_message,
+    };
+  }
+
+  async delete(userId: string, documentId: string) {
+    await this.findOne(userId, documentId, 'OWNER');
+
+    const versions = await this.prisma.documentVersion.findMany({
+      where: { document_id: documentId },
+      select: { logos_id: true, storage_key: true },
+    });
+
+    // Delete every version from Logos
+    for (const version of versions) {
+      if (version.logos_id) {
+        try {
+          const logosId = version.logos_id;
+          await this.processingTasks.track({ type: ProcessingTaskType.DELETE, documentId, logosId }, () =>
+            this.logosService.deleteDocument(logosId),
+          );
+        } catch (error) {
+          this.logger.warn(`Failed to delete document from Logos: ${error.message}`);
+        }
+      }
+    }
+
+    // Delete local record, along with chat sessions that would be left without any document
+    await this.prisma.$transaction([
+      this.prisma.chatSession.deleteMany({
+        where: { documents: { some: { document_id: documentId }, every: { document_id: documentId } } },
+      }),
+      this.prisma.document.delete({
+        where: { id: documentId },
+      }),
+    ]);
+
+    for (const version of versions) {
+      if (version.storage_key) {
+        await this.deleteStoredFile(version.storage_key);
+      }
+    }
 
     return { message: 'Document deleted successfully' };
   }
+
+  async deleteStoredFile(storageKey: string) {
+    try {
+      await this.storage.delete(storageKey);
+    } catch (error) {
+      this.logger.warn(`Failed to delete stored file ${storageKey}: ${error.message}`);
+    }
+  }
+
+  private ownerFilter(owner: DocumentOwner): Prisma.DocumentWhereInput {
+    return owner.organizationId ? { organization_id: owner.organizationId } : this.documentAccess.ownedBy(owner.userId);
+  }
+
+  private buildListFilter(
+    userId: string,
+    workspace: ActiveWorkspace | null,
+    query: ListDocumentsQueryDto,
+  ): Prisma.DocumentWhereInput {
+    const scope = query.scope ?? 'all';
+    const conditions: Prisma.DocumentWhereInput[] = [
+      workspace
+        ? { organization_id: workspace.id }
+        : scope === 'owned'
+          ? this.documentAccess.ownedBy(userId)
+          : scope === 'shared'
+            ? { shares: { some: { user_id: userId } } }
+            : this.documentAccess.accessibleBy(userId),
+    ];
+
+    if (query.search) {
+      // Served by the pg_trgm GIN indexes on these columns
+      conditions.push({
+        OR: [
+          { filename: { contains: query.search, mode: 'insensitive' } },
+          { summary: { contains: query.search, mode: 'insensitive' } },
+          { classification: { contains: query.search, mode: 'insensitive' } },
+        ],
+      });
+    }
+
+    const where: Prisma.DocumentWhereInput = { AND: conditions };
+
+    if (query.status?.length) {
+      where.status = { in: query.status };
+    }
+
+    if (query.classification) {
+      where.classification = query.classification;
+    }
+
+    if (query.content_type) {
+      where.content_type = query.content_type;
+    }
+
+    if (query.created_from || query.created_to) {
+      where.created_at = {
+        ...(query.created_from && { gte: new Date(query.created_from) }),
+        ...(query.created_to && { lte: new Date(query.created_to) }),
+      };
+    }
+
+    return where;
+  }
+
+  // Keyset condition: rows strictly after the cursor in (sortBy, id) order
+  private buildCursorFilter(
+    sortBy: DocumentSortField,
+    sortOrder: 'asc' | 'desc',
+    cursor: DocumentCursor,
+  ): Prisma.DocumentWhereInput {
+    const op = sortOrder === 'asc' ? 'gt' : 'lt';
+    const value = sortBy === 'filename' ? cursor.value : new Date(cursor.value);
+
+    return {
+      OR: [{ [sortBy]: { [op]: value } }, { [sortBy]: value, id: { [op]: cursor.id } }],
+    };
+  }
+
+  private encodeCursor(
+    sortBy: DocumentSortField,
+    sortOrder: 'asc' | 'desc',
+    row: { id: string } & Record<DocumentSortField, string | Date>,
+  ) {
+    const value = row[sortBy];
+    const cursor: DocumentCursor = {
+      sort_by: sortBy,
+      sort_order: sortOrder,
+      value: value instanceof Date ? value.toISOString() : value,
+      id: row.id,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, sortBy: DocumentSortField, sortOrder: 'asc' | 'desc'): DocumentCursor {
+    let decoded: DocumentCursor;
+    try {
+      decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (typeof decoded?.value !== 'string' || typeof decoded?.id !== 'string') {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (decoded.sort_by !== sortBy || decoded.sort_order !== sortOrder) {
+      throw new BadRequestException('Cursor was issued for a different sort_by or sort_order');
+    }
+
+    if (sortBy !== 'filename' && Number.isNaN(new Date(decoded.value).getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return decoded;
+  }
 }
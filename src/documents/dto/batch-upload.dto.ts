@@ -0,0 +1,17 @@
+export type BatchUploadStatus = 'created' | 'duplicate' | 'rejected' | 'failed';
+
+export class BatchUploadResultDto {
+  filename: string;
+  status: BatchUploadStatus;
+  document_id?: string;
+  logos_id?: string | null;
+  reason?: string;
+}
+
+export class BatchUploadResponseDto {
+  results: BatchUploadResultDto[];
+  created: number;
+  duplicate: number;
+  rejected: number;
+  failed: number;
+}
@@ -1,9 +1,12 @@
 import { DocumentStatus } from '@prisma/client';
+import { DocumentAccessLevel } from '../../access/document-access.service';
 
 export class DocumentResponseDto {
   id: string;
   filename: string;
   content_type: string;
+  file_size: number | null;
+  current_version: number;
   status: DocumentStatus;
   summary: string | null;
   classification: string | null;
@@ -11,3 +14,27 @@ export class DocumentResponseDto {
   created_at: Date;
   updated_at: Date;
 }
+
+export class DocumentListItemDto extends DocumentResponseDto {
+  shared: boolean; // true when the document belongs to someone else
+  permission: DocumentAccessLevel;
+}
+
+export class DocumentPageDto {
+  items: DocumentListItemDto[];
+  next_cursor: string | null;
+  total: number;
+}
+
+export class UploadDocumentResponseDto {
+  id: string;
+  logos_id: string | null;
+  message: string;
+  duplicate: boolean; // true when an existing document with identical content was returned instead
+}
+
+export class DuplicateGroupDto {
+  checksum: string;
+  count: number;
+  documents: DocumentResponseDto[];
+}
@@ -0,0 +1,20 @@
+import { IsEmail, IsEnum } from 'class-validator';
+import { SharePermission } from '@prisma/client';
+
+export class GrantShareDto {
+  @IsEmail()
+  email: string;
+
+  @IsEnum(SharePermission)
+  permission: SharePermission;
+}
+
+export class DocumentShareResponseDto {
+  user_id: string;
+  email: string;
+  name: string | null;
+  permission: SharePermission;
+  granted_by: string | null; // Email of whoever granted or last changed the share
+  created_at: Date;
+  updated_at: Date;
+}
@@ -0,0 +1,38 @@
+import { IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DocumentStatus } from '@prisma/client';
+import { DiffSegment } from '../summary-diff.util';
+
+export class DocumentVersionResponseDto {
+  id: string;
+  version_number: number;
+  is_current: boolean;
+  filename: string;
+  content_type: string;
+  file_size: number | null;
+  logos_id: string | null;
+  status: DocumentStatus;
+  summary: string | null;
+  classification: string | null;
+  error_message: string | null;
+  created_at: Date;
+}
+
+export class CompareVersionsQueryDto {
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  to: number;
+}
+
+export class CompareVersionsResponseDto {
+  from: DocumentVersionResponseDto;
+  to: DocumentVersionResponseDto;
+  classification_changed: boolean;
+  summary_diff: DiffSegment[];
+}
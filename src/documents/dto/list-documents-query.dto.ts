@@ -0,0 +1,63 @@
+import { IsEnum, IsIn, IsInt, IsISO8601, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { DocumentStatus } from '@prisma/client';
+
+export const DOCUMENT_SORT_FIELDS = ['created_at', 'updated_at', 'filename'] as const;
+export type DocumentSortField = (typeof DOCUMENT_SORT_FIELDS)[number];
+
+export const DOCUMENT_SCOPES = ['all', 'owned', 'shared'] as const;
+export type DocumentScope = (typeof DOCUMENT_SCOPES)[number];
+
+export class ListDocumentsQueryDto {
+  // Free-text search over filename, summary and classification
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  // Accepts `status=PENDING&status=FAILED` or `status=PENDING,FAILED`
+  @IsOptional()
+  @Transform(({ value }) => (Array.isArray(value) ? value : String(value).split(',')))
+  @IsEnum(DocumentStatus, { each: true })
+  status?: DocumentStatus[];
+
+  // Own documents, documents shared with the caller, or both; ignored inside a workspace
+  @IsOptional()
+  @IsIn(DOCUMENT_SCOPES)
+  scope?: DocumentScope = 'all';
+
+  @IsOptional()
+  @IsString()
+  classification?: string;
+
+  @IsOptional()
+  @IsString()
+  content_type?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  created_from?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  created_to?: string;
+
+  @IsOptional()
+  @IsIn(DOCUMENT_SORT_FIELDS)
+  sort_by?: DocumentSortField = 'created_at';
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sort_order?: 'asc' | 'desc' = 'desc';
+
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
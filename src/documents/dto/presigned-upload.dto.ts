@@ -0,0 +1,33 @@
+import { IsIn, IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { ALLOWED_CONTENT_TYPES, MAX_UPLOAD_SIZE } from '../documents.constants';
+
+export class PresignUploadDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  filename: string;
+
+  @IsIn(ALLOWED_CONTENT_TYPES)
+  content_type: string;
+
+  // Optional early check; the stored object is validated again on confirm
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_UPLOAD_SIZE)
+  size?: number;
+}
+
+export class ConfirmUploadDto {
+  @IsNotEmpty()
+  @IsString()
+  key: string;
+}
+
+export class PresignedUploadResponseDto {
+  key: string;
+  upload_url: string;
+  method: 'PUT';
+  headers: Record<string, string>;
+  expires_at: Date;
+}
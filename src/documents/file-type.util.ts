@@ -0,0 +1,22 @@
+import { extname } from 'path';
+
+const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+};
+
+export function contentTypeFromFilename(filename: string): string | undefined {
+  return CONTENT_TYPES_BY_EXTENSION[extname(filename).toLowerCase()];
+}
+
+// Checks the first bytes of a file against its declared type, so renamed binaries are caught
+export function matchesContentType(head: Buffer, contentType: string): boolean {
+  switch (contentType) {
+    case 'application/pdf':
+      return head.subarray(0, 5).toString('latin1') === '%PDF-';
+    case 'text/plain':
+      return !head.includes(0);
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,36 @@
+import { Request } from 'express';
+import { StorageEngine } from 'multer';
+
+// Multer storage that keeps files in memory like the default one, but instead of failing the whole request on a
+// file over `maxFileSize` it drains that file and hands it on with its full size and an empty buffer, so the
+// caller can reject just that file
+export class SizeCappedMemoryStorage implements StorageEngine {
+  constructor(private readonly maxFileSize: number) {}
+
+  _handleFile(
+    _req: Request,
+    file: Express.Multer.File,
+    callback: (error?: Error | null, info?: Partial<Express.Multer.File>) => void,
+  ) {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    file.stream.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= this.maxFileSize) {
+        chunks.push(chunk);
+      } else {
+        chunks.length = 0;
+      }
+    });
+    file.stream.on('error', (error: Error) => callback(error));
+    file.stream.on('end', () =>
+      callback(null, { buffer: size <= this.maxFileSize ? Buffer.concat(chunks) : Buffer.alloc(0), size }),
+    );
+  }
+
+  _removeFile(_req: Request, file: Express.Multer.File, callback: (error: Error | null) => void) {
+    delete (file as Partial<Express.Multer.File>).buffer;
+    callback(null);
+  }
+}
@@ -0,0 +1,44 @@
+export interface DiffSegment {
+  type: 'unchanged' | 'added' | 'removed';
+  text: string;
+}
+
+function splitSentences(text: string | null): string[] {
+  return (text ?? '')
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+// Sentence-level diff (longest common subsequence) between two summaries
+export function diffSummaries(from: string | null, to: string | null): DiffSegment[] {
+  const a = splitSentences(from);
+  const b = splitSentences(to);
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      segments.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      segments.push({ type: 'removed', text: a[i++] });
+    } else {
+      segments.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) segments.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) segments.push({ type: 'added', text: b[j++] });
+
+  return segments;
+}
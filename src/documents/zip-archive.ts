@@ -0,0 +1,151 @@
+import { fromBuffer, Entry, ZipFile } from 'yauzl';
+import { posix } from 'path';
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntrySize: number;
+  maxTotalSize: number;
+  maxCompressionRatio: number;
+}
+
+export type ZipEntry = { filename: string; data: Buffer } | { filename: string; rejected: string };
+
+// The archive as a whole is unusable (corrupt, too many entries, expands too far)
+export class InvalidArchiveError extends Error {}
+
+// Walks the archive twice: first over the central directory only, so a zip bomb or an oversized archive is refused
+// before anything is extracted, then entry by entry, handing each one to `onEntry` before reading the next.
+// At most one decompressed entry is held in memory. Unsafe or oversized entries are reported, not extracted.
+export async function extractZip(
+  buffer: Buffer,
+  limits: ZipLimits,
+  onEntry: (entry: ZipEntry) => Promise<void>,
+): Promise<void> {
+  let fileCount = 0;
+  let totalSize = 0;
+  await walkZip(buffer, async (_zip, entry, path) => {
+    if (++fileCount > limits.maxEntries) {
+      throw new InvalidArchiveError(`Archive contains more than ${limits.maxEntries} files`);
+    }
+
+    if (!checkEntry(path, entry, limits)) {
+      totalSize += entry.uncompressedSize;
+      if (totalSize > limits.maxTotalSize) {
+        throw new InvalidArchiveError(`Archive expands to more than ${limits.maxTotalSize} bytes`);
+      }
+    }
+  });
+
+  await walkZip(buffer, async (zip, entry, path) => {
+    const filename = posix.basename(path.replace(/\\/g, '/'));
+    const rejected = checkEntry(path, entry, limits);
+    if (rejected) {
+      await onEntry({ filename, rejected });
+      return;
+    }
+
+    let data: Buffer;
+    try {
+      data = await readEntry(zip, entry, limits.maxEntrySize);
+    } catch (error) {
+      await onEntry({ filename, rejected: `Could not read file: ${error.message}` });
+      return;
+    }
+    await onEntry({ filename, data });
+  });
+}
+
+// Visits file entries in order, waiting for `visit` before moving on. Directories and OS metadata are skipped.
+function walkZip(buffer: Buffer, visit: (zip: ZipFile, entry: Entry, path: string) => Promise<void>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // decodeStrings is off so a traversal path rejects one entry instead of failing the whole archive
+    fromBuffer(buffer, { lazyEntries: true, decodeStrings: false, validateEntrySizes: true }, (openError, zip) => {
+      if (openError || !zip) {
+        reject(new InvalidArchiveError(`Invalid ZIP archive: ${openError?.message}`));
+        return;
+      }
+
+      let failed = false;
+      const fail = (error: Error) => {
+        if (!failed) {
+          failed = true;
+          zip.close();
+          reject(error);
+        }
+      };
+
+      zip.on('error', (error: Error) => fail(new InvalidArchiveError(error.message)));
+      zip.on('end', () => !failed && resolve());
+      zip.on('entry', (entry: Entry) => {
+        const path = decodeFileName(entry);
+        if (path.endsWith('/') || isIgnored(path)) {
+          zip.readEntry();
+          return;
+        }
+
+        visit(zip, entry, path)
+          .then(() => !failed && zip.readEntry())
+          .catch(fail);
+      });
+
+      zip.readEntry();
+    });
+  });
+}
+
+function decodeFileName(entry: Entry): string {
+  const raw = entry.fileName as unknown as Buffer;
+  // Bit 11 marks UTF-8 names; anything else is CP437, which latin1 approximates for ASCII names
+  return raw.toString(entry.generalPurposeBitFlag & 0x800 ? 'utf8' : 'latin1');
+}
+
+function isIgnored(path: string): boolean {
+  return path.startsWith('__MACOSX/') || posix.basename(path).startsWith('.');
+}
+
+function checkEntry(path: string, entry: Entry, limits: ZipLimits): string | null {
+  const segments = path.split(/[\\/]/);
+  if (path.startsWith('/') || path.startsWith('\\') || /^[a-zA-Z]:/.test(path) || segments.includes('..')) {
+    return 'Unsafe path in archive';
+  }
+
+  if (entry.isEncrypted()) {
+    return 'Encrypted entries are not supported';
+  }
+
+  if (entry.uncompressedSize > limits.maxEntrySize) {
+    return `File exceeds ${limits.maxEntrySize} bytes`;
+  }
+
+  if (entry.compressedSize > 0 && entry.uncompressedSize / entry.compressedSize > limits.maxCompressionRatio) {
+    return 'Suspicious compression ratio';
+  }
+
+  return null;
+}
+
+function readEntry(zip: ZipFile, entry: Entry, maxSize: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    zip.openReadStream(entry, (error, stream) => {
+      if (error || !stream) {
+        reject(error ?? new Error('Failed to read archive entry'));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      // Declared sizes are validated by yauzl, but count anyway in case an entry lies
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxSize) {
+          stream.destroy(new InvalidArchiveError('Archive entry expands beyond its declared size'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      stream.on('error', reject);
+      stream.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+  });
+}
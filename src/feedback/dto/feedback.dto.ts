@@ -0,0 +1,83 @@
+import { IsIn, IsInt, IsISO8601, IsOptional, IsString, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { FeedbackRating, FeedbackReason } from '@prisma/client';
+
+export const FEEDBACK_PERIODS = ['day', 'week', 'month'] as const;
+export type FeedbackPeriod = (typeof FEEDBACK_PERIODS)[number];
+
+export class FeedbackFilterDto {
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  // Matches conversations where any document has this classification
+  @IsOptional()
+  @IsString()
+  classification?: string;
+}
+
+export class FeedbackReportQueryDto extends FeedbackFilterDto {
+  @IsOptional()
+  @IsIn(FEEDBACK_PERIODS)
+  period?: FeedbackPeriod = 'week';
+}
+
+export class LowestRatedQueryDto extends FeedbackFilterDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
+
+export class RatingCountsDto {
+  up: number;
+  down: number;
+  satisfaction: number | null; // up / (up + down), null without ratings
+}
+
+export class ClassificationFeedbackDto extends RatingCountsDto {
+  classification: string | null;
+}
+
+export class PeriodFeedbackDto extends ClassificationFeedbackDto {
+  period_start: Date;
+}
+
+// Ratings in multi-document conversations count once for each distinct classification involved
+export class FeedbackReportDto {
+  period: FeedbackPeriod;
+  totals: RatingCountsDto;
+  by_reason: { reason: FeedbackReason | null; count: number }[]; // Thumbs-down ratings only
+  by_classification: ClassificationFeedbackDto[];
+  by_period: PeriodFeedbackDto[];
+}
+
+export class RatedConversationDto extends RatingCountsDto {
+  session_id: string;
+  title: string | null;
+  user: { id: string; email: string };
+  documents: { id: string; filename: string; classification: string | null }[];
+  last_feedback_at: Date;
+}
+
+export class ReviewMessageDto {
+  id: string;
+  role: string;
+  content: string;
+  created_at: Date;
+  feedback: { rating: FeedbackRating; reason: FeedbackReason | null; comment: string | null } | null;
+}
+
+export class ConversationReviewDto {
+  session_id: string;
+  title: string | null;
+  user: { id: string; email: string };
+  documents: { id: string; filename: string; classification: string | null }[];
+  messages: ReviewMessageDto[];
+}
@@ -0,0 +1,27 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { FeedbackService } from './feedback.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { FeedbackReportQueryDto, LowestRatedQueryDto } from './dto/feedback.dto';
+
+@Controller('feedback')
+@Roles(Role.ADMIN)
+export class FeedbackController {
+  constructor(private readonly feedbackService: FeedbackService) {}
+
+  // Answer ratings aggregated by document classification and time period
+  @Get('report')
+  async getReport(@Query() query: FeedbackReportQueryDto) {
+    return this.feedbackService.getReport(query);
+  }
+
+  @Get('conversations')
+  async findLowestRated(@Query() query: LowestRatedQueryDto) {
+    return this.feedbackService.findLowestRated(query);
+  }
+
+  @Get('conversations/:sessionId')
+  async getConversation(@Param('sessionId', ParseUUIDPipe) sessionId: string) {
+    return this.feedbackService.getConversation(sessionId);
+  }
+}
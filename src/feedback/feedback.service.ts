@@ -0,0 +1,201 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { FeedbackRating, Prisma } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import {
+  ClassificationFeedbackDto,
+  ConversationReviewDto,
+  FeedbackFilterDto,
+  FeedbackReportDto,
+  FeedbackReportQueryDto,
+  LowestRatedQueryDto,
+  PeriodFeedbackDto,
+  RatedConversationDto,
+} from './dto/feedback.dto';
+
+const sessionOverviewSelect = {
+  id: true,
+  title: true,
+  user: { select: { id: true, email: true } },
+  documents: {
+    orderBy: { position: 'asc' },
+    select: { document: { select: { id: true, filename: true, classification: true } } },
+  },
+} satisfies Prisma.ChatSessionSelect;
+
+@Injectable()
+export class FeedbackService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getReport(query: FeedbackReportQueryDto): Promise<FeedbackReportDto> {
+    const period = query.period ?? 'week';
+    const where = this.buildFilter(query);
+
+    const [byRating, byReason, byClassification, byPeriod] = await Promise.all([
+      this.prisma.messageFeedback.groupBy({ by: ['rating'], where, _count: { _all: true } }),
+      this.prisma.messageFeedback.groupBy({
+        by: ['reason'],
+        where: { ...where, rating: FeedbackRating.DOWN },
+        _count: { _all: true },
+      }),
+      this.prisma.$queryRaw<{ classification: string | null; up: number; down: number }[]>`
+        SELECT "classification",
+               COUNT(*) FILTER (WHERE "rating" = 'UP')::int AS up,
+               COUNT(*) FILTER (WHERE "rating" = 'DOWN')::int AS down
+        FROM (${this.ratingsByClassification(query)}) rated
+        GROUP BY "classification"
+        ORDER BY down DESC, up DESC
+      `,
+      this.prisma.$queryRaw<{ period_start: Date; classification: string | null; up: number; down: number }[]>`
+        SELECT date_trunc(${period}, "created_at") AS period_start,
+               "classification",
+               COUNT(*) FILTER (WHERE "rating" = 'UP')::int AS up,
+               COUNT(*) FILTER (WHERE "rating" = 'DOWN')::int AS down
+        FROM (${this.ratingsByClassification(query)}) rated
+        GROUP BY period_start, "classification"
+        ORDER BY period_start, "classification"
+      `,
+    ]);
+
+    const count = (rating: FeedbackRating) => byRating.find((row) => row.rating === rating)?._count._all ?? 0;
+
+    return {
+      period,
+      totals: this.withSatisfaction({ up: count(FeedbackRating.UP), down: count(FeedbackRating.DOWN) }),
+      by_reason: byReason
+        .map((row) => ({ reason: row.reason, count: row._count._all }))
+        .sort((a, b) => b.count - a.count),
+      by_classification: byClassification.map((row): ClassificationFeedbackDto => this.withSatisfaction(row)),
+      by_period: byPeriod.map((row): PeriodFeedbackDto => this.withSatisfaction(row)),
+    };
+  }
+
+  // Conversations with at least one thumbs-down, worst net score first
+  async findLowestRated(query: LowestRatedQueryDto): Promise<RatedConversationDto[]> {
+    const rows = await this.prisma.$queryRaw<
+      { session_id: string; up: number; down: number; last_feedback_at: Date }[]
+    >`
+      SELECT m."session_id",
+             COUNT(*) FILTER (WHERE f."rating" = 'UP')::int AS up,
+             COUNT(*) FILTER (WHERE f."rating" = 'DOWN')::int AS down,
+             MAX(f."created_at") AS last_feedback_at
+      FROM "MessageFeedback" f
+      JOIN "ChatMessage" m ON m."id" = f."message_id"
+      WHERE ${this.buildSqlFilter(query)}
+      GROUP BY m."session_id"
+      HAVING COUNT(*) FILTER (WHERE f."rating" = 'DOWN') > 0
+      ORDER BY COUNT(*) FILTER (WHERE f."rating" = 'DOWN') - COUNT(*) FILTER (WHERE f."rating" = 'UP') DESC,
+               down DESC,
+               last_feedback_at DESC
+      LIMIT ${query.limit ?? 20}
+    `;
+
+    const sessions = await this.prisma.chatSession.findMany({
+      where: { id: { in: rows.map((row) => row.session_id) } },
+      select: sessionOverviewSelect,
+    });
+    const sessionsById = new Map(sessions.map((session) => [session.id, session]));
+
+    return rows.flatMap((row) => {
+      const session = sessionsById.get(row.session_id);
+      if (!session) {
+        return [];
+      }
+
+      return [
+        {
+          ...this.withSatisfaction(row),
+          session_id: session.id,
+          title: session.title,
+          user: session.user,
+          documents: session.documents.map((d) => d.document),
+          last_feedback_at: row.last_feedback_at,
+        },
+      ];
+    });
+  }
+
+  // Full conversation with its ratings, for reviewing poorly rated answers
+  async getConversation(sessionId: string): Promise<ConversationReviewDto> {
+    const session = await this.prisma.chatSession.findUnique({
+      where: { id: sessionId },
+      select: {
+        ...sessionOverviewSelect,
+        messages: {
+          orderBy: { created_at: 'asc' },
+          include: { feedback: { select: { rating: true, reason: true, comment: true } } },
+        },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Chat session not found');
+    }
+
+    return {
+      session_id: session.id,
+      title: session.title,
+      user: session.user,
+      documents: session.documents.map((d) => d.document),
+      messages: session.messages.map((m) => ({
+        id: m.id,
+        role: m.role,
+        content: m.content,
+        created_at: m.created_at,
+        feedback: m.feedback,
+      })),
+    };
+  }
+
+  private withSatisfaction<T extends { up: number; down: number }>(row: T) {
+    const total = row.up + row.down;
+    return { ...row, satisfaction: total ? row.up / total : null };
+  }
+
+  private buildFilter(query: FeedbackFilterDto): Prisma.MessageFeedbackWhereInput {
+    return {
+      ...((query.from || query.to) && {
+        created_at: {
+          ...(query.from && { gte: new Date(query.from) }),
+          ...(query.to && { lte: new Date(query.to) }),
+        },
+      }),
+      ...(query.classification && {
+        message: { session: { documents: { some: { document: { classification: query.classification } } } } },
+      }),
+    };
+  }
+
+  // Same filters as buildFilter, for raw queries over "MessageFeedback" f joined to "ChatMessage" m
+  private buildSqlFilter(query: FeedbackFilterDto): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+    if (query.from) {
+      conditions.push(Prisma.sql`f."created_at" >= ${new Date(query.from)}`);
+    }
+    if (query.to) {
+      conditions.push(Prisma.sql`f."created_at" <= ${new Date(query.to)}`);
+    }
+    if (query.classification) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "ChatSessionDocument" sd
+        JOIN "Document" d ON d."id" = sd."document_id"
+        WHERE sd."session_id" = m."session_id" AND d."classification" = ${query.classification}
+      )`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  // One row per rating and distinct classification of the documents in its conversation
+  private ratingsByClassification(query: FeedbackFilterDto): Prisma.Sql {
+    return Prisma.sql`
+      SELECT DISTINCT f."id", f."rating", f."created_at", d."classification"
+      FROM "MessageFeedback" f
+      JOIN "ChatMessage" m ON m."id" = f."message_id"
+      JOIN "ChatSessionDocument" sd ON sd."session_id" = m."session_id"
+      JOIN "Document" d ON d."id" = sd."document_id"
+      WHERE ${this.buildSqlFilter(query)}
+        ${query.classification ? Prisma.sql`AND d."classification" = ${query.classification}` : Prisma.empty}
+    `;
+  }
+}
@@ -3,6 +3,7 @@ import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
 import { AxiosError } from 'axios';
 import FormData from 'form-data';
+import { Readable } from 'stream';
 import { DocumentStatus } from '@prisma/client';
 
 export interface LogosDocument {
@@ -17,6 +18,13 @@ export interface LogosDocument {
   updated_at: string;
 }
 
+export interface LogosUploadFile {
+  filename: string;
+  contentType: string;
+  size: number;
+  data: Buffer | Readable;
+}
+
 export interface LogosUploadResponse {
   id: string;
   message: string;
@@ -30,18 +38,42 @@ export interface LogosStatusResponse {
   error_message: string | null;
 }
 
+// Chunk attribution sent in chat stream events
+export interface LogosChatSource {
+  chunk_id: string;
+  document_id: string;
+}
+
+// Payload of a `data:` line in the Logos chat stream
+export interface LogosChatEvent {
+  content?: string;
+  chunk_ids?: string[];
+  sources?: LogosChatSource[];
+  error?: string;
+}
+
+export interface LogosChunk {
+  id: string;
+  document_id: string;
+  text: string;
+  page_number: number | null;
+  char_start: number | null;
+  char_end: number | null;
+}
+
 @Injectable()
 export class LogosService {
   private readonly logger = new Logger(LogosService.name);
 
   constructor(private readonly httpService: HttpService) {}
 
-  async uploadDocument(file: Express.Multer.File): Promise<LogosUploadResponse> {
+  async uploadDocument(file: LogosUploadFile): Promise<LogosUploadResponse> {
     try {
       const formData = new FormData();
-      formData.append('file', file.buffer, {
-        filename: file.originalname,
-        contentType: file.mimetype,
+      formData.append('file', file.data, {
+        filename: file.filename,
+        contentType: file.contentType,
+        knownLength: file.size,
       });
 
       const response = await firstValueFrom(
@@ -88,29 +120,90 @@ export class LogosService {
     }
   }
 
+  // Look up chunks by id; chunks Logos no longer has (e.g. after reprocessing) are left out of the result
+  async getChunks(chunkIds: string[]): Promise<LogosChunk[]> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<{ chunks: LogosChunk[] }>('/chunks/lookup', { chunk_ids: chunkIds }),
+      );
+      return response.data.chunks;
+    } catch (error) {
+      this.handleError(error, 'Failed to look up chunks in Logos');
+    }
+  }
+
+  // Fold older conversation turns into a running summary of at most `maxTokens`
+  async summarizeConversation(
+    previousSummary: string | null,
+    messages: { role: string; content: string }[],
+    maxTokens: number,
+  ): Promise<string> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.post<{ summary: string }>('/chat/summarize', {
+          previous_summary: previousSummary,
+          conversation_history: messages,
+          max_tokens: maxTokens,
+        }),
+      );
+      return response.data.summary;
+    } catch (error) {
+      this.handleError(error, 'Failed to summarize conversation in Logos');
+    }
+  }
+
+  // Answers over one or more documents; multi-document answers report each chunk's document in `sources`
   async *chatStream(
-    logosDocumentId: string,
+    logosDocumentIds: string[],
     message: string,
     conversationHistory: { role: string; content: string }[] = [],
-  ): AsyncGenerator<string> {
+    signal?: AbortSignal,
+  ): AsyncGenerator<LogosChatEvent> {
     const response = await firstValueFrom(
-      this.httpService.post(
+      this.httpService.post<Readable>(
         '/chat',
         {
-          document_id: logosDocumentId,
+          // Older Logos deployments only know `document_id`, so single-document chats keep using it
+          ...(logosDocumentIds.length === 1
+            ? { document_id: logosDocumentIds[0] }
+            : { document_ids: logosDocumentIds }),
           message,
           conversation_history: conversationHistory,
         },
         {
           responseType: 'stream',
+          signal,
         },
       ),
     );
 
     const stream = response.data;
+    stream.setEncoding('utf8');
 
+    // SSE lines can be split across network chunks, so only complete lines are parsed
+    let buffer = '';
     for await (const chunk of stream) {
-      yield chunk.toString();
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) {
+          continue;
+        }
+
+        let event: LogosChatEvent;
+        try {
+          event = JSON.parse(line.slice(6));
+        } catch {
+          continue; // Ignore keep-alives and other non-JSON payloads
+        }
+
+        if (event.error) {
+          throw new HttpException(`Logos chat failed: ${event.error}`, 502);
+        }
+        yield event;
+      }
     }
   }
 
@@ -0,0 +1,37 @@
+import { Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail.transport';
+
+export interface FileMailOptions {
+  directory?: string; // Where .eml files are written; without it only the recipient and subject are logged
+}
+
+// For development and tests: nothing leaves the machine. Messages are written out as .eml files that any mail
+// client can open when a directory is configured. The body is never logged, since it carries sign-in links.
+export class FileMailTransport extends MailTransport {
+  private readonly logger = new Logger(FileMailTransport.name);
+  private readonly transporter: Transporter;
+  private readonly directory?: string;
+
+  constructor(options: FileMailOptions = {}) {
+    super();
+    this.transporter = createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+    this.directory = options.directory ? resolve(options.directory) : undefined;
+  }
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    if (!this.directory) {
+      this.logger.log(`Mail to ${message.to}: ${message.subject} (set MAIL_FILE_PATH to keep messages)`);
+      return;
+    }
+
+    const { message: raw } = await this.transporter.sendMail({ from, ...message });
+    const path = join(this.directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`);
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path, raw as Buffer);
+    this.logger.log(`Mail to ${message.to} written to ${path}`);
+  }
+}
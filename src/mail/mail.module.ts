@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail.transport';
+import { MailerService } from './mailer.service';
+import { FileMailTransport } from './file-mail.transport';
+import { SmtpMailOptions, SmtpMailTransport } from './smtp-mail.transport';
+
+@Module({
+  providers: [
+    {
+      provide: MailTransport,
+      useFactory: (configService: ConfigService): MailTransport => {
+        if (configService.get<string>('mail.transport') === 'smtp') {
+          return new SmtpMailTransport(configService.get<SmtpMailOptions>('mail.smtp')!);
+        }
+        return new FileMailTransport({ directory: configService.get<string>('mail.filePath') });
+      },
+      inject: [ConfigService],
+    },
+    MailerService,
+  ],
+  exports: [MailerService],
+})
+export class MailModule {}
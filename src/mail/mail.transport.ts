@@ -0,0 +1,10 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Injection token and contract for the configured mail transport
+export abstract class MailTransport {
+  abstract send(from: string, message: MailMessage): Promise<void>;
+}
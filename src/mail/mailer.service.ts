@@ -0,0 +1,53 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail.transport';
+
+// Account emails. Links point at the web app, which posts the token back to the API.
+@Injectable()
+export class MailerService {
+  constructor(
+    private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async sendEmailVerification(to: string, token: string, expiresAt: Date): Promise<void> {
+    await this.transport.send(this.from(), {
+      to,
+      subject: 'Confirm your email address',
+      text: [
+        'Welcome to Atlas. Confirm your email address by opening this link:',
+        '',
+        this.link('/verify-email', token),
+        '',
+        `The link expires at ${this.timestamp(expiresAt)}.`,
+      ].join('\n'),
+    });
+  }
+
+  async sendPasswordReset(to: string, token: string, expiresAt: Date): Promise<void> {
+    await this.transport.send(this.from(), {
+      to,
+      subject: 'Reset your password',
+      text: [
+        'Someone asked to reset the password of your Atlas account. Choose a new password here:',
+        '',
+        this.link('/reset-password', token),
+        '',
+        `The link expires at ${this.timestamp(expiresAt)} and works once. If you didn't ask for this, ignore this email.`,
+      ].join('\n'),
+    });
+  }
+
+  private link(path: string, token: string) {
+    const appUrl = this.configService.get<string>('mail.appUrl') ?? 'http://localhost:3000';
+    return `${appUrl.replace(/\/+$/, '')}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  private from() {
+    return this.configService.get<string>('mail.from') ?? 'Atlas <no-reply@localhost>';
+  }
+
+  private timestamp(date: Date) {
+    return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+}
@@ -0,0 +1,28 @@
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from './mail.transport';
+
+export interface SmtpMailOptions {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  password?: string;
+}
+
+export class SmtpMailTransport extends MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpMailOptions) {
+    super();
+    this.transporter = createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(from: string, message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from, ...message });
+  }
+}
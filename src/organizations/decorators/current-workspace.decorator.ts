@@ -0,0 +1,8 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+export const CurrentWorkspace = createParamDecorator((data: string | undefined, ctx: ExecutionContext) => {
+  const request = ctx.switchToHttp().getRequest();
+  const workspace = request.workspace ?? null;
+
+  return data ? (workspace?.[data] ?? null) : workspace;
+});
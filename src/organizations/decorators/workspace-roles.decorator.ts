@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+
+export const WORKSPACE_ROLES_KEY = 'workspaceRoles';
+// Roles required in the active workspace; personal (no workspace) requests are unaffected
+export const WorkspaceRoles = (...roles: WorkspaceRole[]) => SetMetadata(WORKSPACE_ROLES_KEY, roles);
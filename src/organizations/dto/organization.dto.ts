@@ -0,0 +1,51 @@
+import { IsEmail, IsEnum, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { WorkspaceRole } from '@prisma/client';
+
+export class CreateOrganizationDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class UpdateOrganizationDto extends CreateOrganizationDto {}
+
+export class UpdateMemberDto {
+  @IsEnum(WorkspaceRole)
+  role: WorkspaceRole;
+}
+
+export class CreateInvitationDto {
+  @IsEmail()
+  email: string;
+
+  @IsEnum(WorkspaceRole)
+  role: WorkspaceRole;
+}
+
+export class OrganizationResponseDto {
+  id: string;
+  name: string;
+  role: WorkspaceRole; // Caller's role in the workspace
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class MemberResponseDto {
+  user_id: string;
+  email: string;
+  name: string | null;
+  role: WorkspaceRole;
+  joined_at: Date;
+}
+
+export class InvitationResponseDto {
+  id: string;
+  organization_id: string;
+  organization_name: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by: string | null;
+  expires_at: Date;
+  created_at: Date;
+}
@@ -0,0 +1,53 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../../database/prisma.service';
+import { WORKSPACE_ROLES_KEY } from '../decorators/workspace-roles.decorator';
+
+export const WORKSPACE_HEADER = 'x-workspace-id';
+
+export interface ActiveWorkspace {
+  id: string;
+  role: WorkspaceRole;
+}
+
+// Resolves the active workspace from the `:organizationId` route param or the X-Workspace-Id header,
+// checks the caller is a member and exposes it as `request.workspace` (null for personal requests)
+@Injectable()
+export class WorkspaceGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context.switchToHttp().getRequest();
+    request.workspace = null;
+
+    const workspaceId: string | undefined = request.params?.organizationId ?? request.headers[WORKSPACE_HEADER];
+    if (!request.user || !workspaceId) {
+      return true;
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { organization_id_user_id: { organization_id: workspaceId, user_id: request.user.id } },
+      select: { role: true },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('Not a member of this workspace');
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<WorkspaceRole[]>(WORKSPACE_ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+
+    if (requiredRoles && !requiredRoles.includes(membership.role)) {
+      throw new ForbiddenException('Insufficient workspace role');
+    }
+
+    request.workspace = { id: workspaceId, role: membership.role } satisfies ActiveWorkspace;
+    return true;
+  }
+}
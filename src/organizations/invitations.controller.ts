@@ -0,0 +1,24 @@
+import { Controller, Get, Post, Param } from '@nestjs/common';
+import { InvitationsService } from './invitations.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+// Invitations addressed to the current user
+@Controller('invitations')
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Get()
+  async findMine(@CurrentUser('id') userId: string) {
+    return this.invitationsService.listForUser(userId);
+  }
+
+  @Post(':id/accept')
+  async accept(@CurrentUser('id') userId: string, @Param('id') invitationId: string) {
+    return this.invitationsService.accept(userId, invitationId);
+  }
+
+  @Post(':id/decline')
+  async decline(@CurrentUser('id') userId: string, @Param('id') invitationId: string) {
+    return this.invitationsService.decline(userId, invitationId);
+  }
+}
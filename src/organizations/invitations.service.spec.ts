@@ -0,0 +1,98 @@
+import { Test } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import { InvitationsService } from './invitations.service';
+import { PrismaService } from '../database/prisma.service';
+import { createTable, createTransaction, InMemoryTable } from '../../test/utils/in-memory-prisma';
+
+interface StoredUser {
+  id: string;
+  email: string;
+  email_verified_at: Date | null;
+}
+
+interface StoredInvitation {
+  id: string;
+  organization_id: string;
+  email: string;
+  role: WorkspaceRole;
+  invited_by_id: string | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+interface StoredMembership {
+  organization_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+}
+
+describe('InvitationsService', () => {
+  let user: InMemoryTable<StoredUser>;
+  let invitation: InMemoryTable<StoredInvitation>;
+  let membership: InMemoryTable<StoredMembership>;
+  let invitations: InvitationsService;
+
+  beforeEach(async () => {
+    user = createTable<StoredUser>({
+      create: (data) => ({ id: `user-${user.rows.length + 1}`, email: '', email_verified_at: null, ...data }),
+    });
+    invitation = createTable<StoredInvitation>({
+      create: (data) => ({
+        id: `invitation-${invitation.rows.length + 1}`,
+        organization_id: 'organization-1',
+        email: '',
+        role: WorkspaceRole.EDITOR,
+        invited_by_id: null,
+        expires_at: new Date(Date.now() + 60_000),
+        created_at: new Date(),
+        ...data,
+      }),
+      relations: () => ({ organization: { name: 'Acme' }, invited_by: null }),
+    });
+    membership = createTable<StoredMembership>({
+      create: (data) => ({ organization_id: '', user_id: '', role: WorkspaceRole.VIEWER, ...data }),
+    });
+
+    const client = { user, invitation, membership };
+    const module = await Test.createTestingModule({
+      providers: [
+        InvitationsService,
+        { provide: PrismaService, useValue: { ...client, $transaction: createTransaction(() => client) } },
+      ],
+    }).compile();
+
+    invitations = module.get(InvitationsService);
+
+    await invitation.create({ data: { email: 'invited@example.com' } });
+  });
+
+  it('hides invitations from an account that has not verified the address', async () => {
+    await user.create({ data: { id: 'user-1', email: 'invited@example.com' } });
+
+    await expect(invitations.listForUser('user-1')).rejects.toThrow(ForbiddenException);
+    await expect(invitations.accept('user-1', 'invitation-1')).rejects.toThrow(
+      'Verify your email address to see and accept invitations',
+    );
+
+    expect(membership.rows).toHaveLength(0);
+    expect(invitation.rows).toHaveLength(1);
+  });
+
+  it('lets a verified account list and accept its invitations', async () => {
+    await user.create({ data: { id: 'user-1', email: 'invited@example.com', email_verified_at: new Date() } });
+
+    await expect(invitations.listForUser('user-1')).resolves.toEqual([
+      expect.objectContaining({ id: 'invitation-1', organization_name: 'Acme' }),
+    ]);
+    await expect(invitations.accept('user-1', 'invitation-1')).resolves.toEqual({
+      organization_id: 'organization-1',
+      role: WorkspaceRole.EDITOR,
+    });
+
+    expect(membership.rows).toEqual([
+      { organization_id: 'organization-1', user_id: 'user-1', role: WorkspaceRole.EDITOR },
+    ]);
+    expect(invitation.rows).toHaveLength(0);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { CreateInvitationDto, InvitationResponseDto } from './dto/organization.dto';
+
+// How long an invitation stays valid
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const INVITATION_INCLUDE = {
+  organization: { select: { name: true } },
+  invited_by: { select: { email: true } },
+} satisfies Prisma.InvitationInclude;
+
+type InvitationWithRelations = Prisma.InvitationGetPayload<{ include: typeof INVITATION_INCLUDE }>;
+
+@Injectable()
+export class InvitationsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Invite an email address; inviting it again replaces the role and restarts the expiry
+  async invite(userId: string, organizationId: string, dto: CreateInvitationDto): Promise<InvitationResponseDto> {
+    const member = await this.prisma.membership.findFirst({
+      where: { organization_id: organizationId, user: { email: dto.email } },
+    });
+
+    if (member) {
+      throw new ConflictException('User is already a member of this workspace');
+    }
+
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+    const invitation = await this.prisma.invitation.upsert({
+      where: { organization_id_email: { organization_id: organizationId, email: dto.email } },
+      create: {
+        organization_id: organizationId,
+        email: dto.email,
+        role: dto.role,
+        invited_by_id: userId,
+        expires_at: expiresAt,
+      },
+      update: { role: dto.role, invited_by_id: userId, expires_at: expiresAt },
+      include: INVITATION_INCLUDE,
+    });
+
+    return this.toResponse(invitation);
+  }
+
+  async listForOrganization(organizationId: string): Promise<InvitationResponseDto[]> {
+    const invitations = await this.prisma.invitation.findMany({
+      where: { organization_id: organizationId },
+      include: INVITATION_INCLUDE,
+      orderBy: { created_at: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.toResponse(invitation));
+  }
+
+  async revoke(organizationId: string, invitationId: string) {
+    const { count } = await this.prisma.invitation.deleteMany({
+      where: { id: invitationId, organization_id: organizationId },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return { message: 'Invitation revoked successfully' };
+  }
+
+  // Unexpired invitations addressed to the caller's email
+  async listForUser(userId: string): Promise<InvitationResponseDto[]> {
+    const user = await this.findVerifiedUser(userId);
+
+    const invitations = await this.prisma.invitation.findMany({
+      where: { email: user.email, expires_at: { gt: new Date() } },
+      include: INVITATION_INCLUDE,
+      orderBy: { created_at: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.toResponse(invitation));
+  }
+
+  async accept(userId: string, invitationId: string) {
+    const invitation = await this.findForUser(userId, invitationId);
+
+    if (invitation.expires_at <= new Date()) {
+      throw new BadRequestException('Invitation has expired');
+    }
+
+    // Consuming the invitation and joining happen together so an invitation can't be used twice
+    await this.prisma.$transaction([
+      this.prisma.invitation.delete({ where: { id: invitation.id } }),
+      this.prisma.membership.upsert({
+        where: { organization_id_user_id: { organization_id: invitation.organization_id, user_id: userId } },
+        create: { organization_id: invitation.organization_id, user_id: userId, role: invitation.role },
+        update: {},
+      }),
+    ]);
+
+    return { organization_id: invitation.organization_id, role: invitation.role };
+  }
+
+  async decline(userId: string, invitationId: string) {
+    const invitation = await this.findForUser(userId, invitationId);
+    await this.prisma.invitation.delete({ where: { id: invitation.id } });
+
+    return { message: 'Invitation declined' };
+  }
+
+  private async findForUser(userId: string, invitationId: string) {
+    const user = await this.findVerifiedUser(userId);
+    const invitation = await this.prisma.invitation.findUnique({ where: { id: invitationId } });
+
+    if (!invitation || invitation.email !== user.email) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    return invitation;
+  }
+
+  // Invitations are matched on email, so only someone who proved they own the address may see or use them
+  private async findVerifiedUser(userId: string) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { email: true, email_verified_at: true },
+    });
+
+    if (!user.email_verified_at) {
+      throw new ForbiddenException('Verify your email address to see and accept invitations');
+    }
+
+    return user;
+  }
+
+  private toResponse(invitation: InvitationWithRelations): InvitationResponseDto {
+    return {
+      id: invitation.id,
+      organization_id: invitation.organization_id,
+      organization_name: invitation.organization.name,
+      email: invitation.email,
+      role: invitation.role,
+      invited_by: invitation.invited_by?.email ?? null,
+      expires_at: invitation.expires_at,
+      created_at: invitation.created_at,
+    };
+  }
+}
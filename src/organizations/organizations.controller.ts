@@ -0,0 +1,101 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, ForbiddenException } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import { OrganizationsService } from './organizations.service';
+import { InvitationsService } from './invitations.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrentWorkspace } from './decorators/current-workspace.decorator';
+import { WorkspaceRoles } from './decorators/workspace-roles.decorator';
+import { ActiveWorkspace } from './guards/workspace.guard';
+import {
+  CreateInvitationDto,
+  CreateOrganizationDto,
+  UpdateMemberDto,
+  UpdateOrganizationDto,
+} from './dto/organization.dto';
+
+// Membership and roles for `:organizationId` routes are enforced by WorkspaceGuard
+@Controller('organizations')
+export class OrganizationsController {
+  constructor(
+    private readonly organizationsService: OrganizationsService,
+    private readonly invitationsService: InvitationsService,
+  ) {}
+
+  @Post()
+  async create(@CurrentUser('id') userId: string, @Body() dto: CreateOrganizationDto) {
+    return this.organizationsService.create(userId, dto);
+  }
+
+  @Get()
+  async findAll(@CurrentUser('id') userId: string) {
+    return this.organizationsService.findAllForUser(userId);
+  }
+
+  @Get(':organizationId')
+  async findOne(@CurrentWorkspace() workspace: ActiveWorkspace) {
+    return this.organizationsService.findOne(workspace.id, workspace.role);
+  }
+
+  @Patch(':organizationId')
+  @WorkspaceRoles(WorkspaceRole.OWNER)
+  async update(@Param('organizationId') organizationId: string, @Body() dto: UpdateOrganizationDto) {
+    return this.organizationsService.update(organizationId, dto);
+  }
+
+  @Delete(':organizationId')
+  @WorkspaceRoles(WorkspaceRole.OWNER)
+  async delete(@Param('organizationId') organizationId: string) {
+    return this.organizationsService.delete(organizationId);
+  }
+
+  @Get(':organizationId/members')
+  async listMembers(@Param('organizationId') organizationId: string) {
+    return this.organizationsService.listMembers(organizationId);
+  }
+
+  @Patch(':organizationId/members/:userId')
+  @WorkspaceRoles(WorkspaceRole.OWNER)
+  async updateMember(
+    @Param('organizationId') organizationId: string,
+    @Param('userId') memberId: string,
+    @Body() dto: UpdateMemberDto,
+  ) {
+    return this.organizationsService.updateMember(organizationId, memberId, dto.role);
+  }
+
+  // Owners remove anyone; other members may only leave
+  @Delete(':organizationId/members/:userId')
+  async removeMember(
+    @CurrentUser('id') userId: string,
+    @CurrentWorkspace() workspace: ActiveWorkspace,
+    @Param('userId') memberId: string,
+  ) {
+    if (memberId !== userId && workspace.role !== WorkspaceRole.OWNER) {
+      throw new ForbiddenException('Insufficient workspace role');
+    }
+
+    return this.organizationsService.removeMember(workspace.id, memberId);
+  }
+
+  @Post(':organizationId/invitations')
+  @WorkspaceRoles(WorkspaceRole.OWNER)
+  async invite(
+    @CurrentUser('id') userId: string,
+    @Param('organizationId') organizationId: string,
+    @Body() dto: CreateInvitationDto,
+  ) {
+    return this.invitationsService.invite(userId, organizationId, dto);
+  }
+
+  @Get(':organizationId/invitations')
+  @WorkspaceRoles(WorkspaceRole.OWNER)
+  async listInvitations(@Param('organizationId') organizationId: string) {
+    return this.invitationsService.listForOrganization(organizationId);
+  }
+
+  @Delete(':organizationId/invitations/:invitationId')
+  @WorkspaceRoles(WorkspaceRole.OWNER)
+  async revokeInvitation(@Param('organizationId') organizationId: string, @Param('invitationId') invitationId: string) {
+    return this.invitationsService.revoke(organizationId, invitationId);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { OrganizationsController } from './organizations.controller';
+import { InvitationsController } from './invitations.controller';
+import { OrganizationsService } from './organizations.service';
+import { InvitationsService } from './invitations.service';
+
+@Module({
+  controllers: [OrganizationsController, InvitationsController],
+  providers: [OrganizationsService, InvitationsService],
+})
+export class OrganizationsModule {}
@@ -0,0 +1,131 @@
+import { Injectable, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { WorkspaceRole } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import {
+  CreateOrganizationDto,
+  MemberResponseDto,
+  OrganizationResponseDto,
+  UpdateOrganizationDto,
+} from './dto/organization.dto';
+
+@Injectable()
+export class OrganizationsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // The creator becomes the workspace's first owner
+  async create(userId: string, dto: CreateOrganizationDto): Promise<OrganizationResponseDto> {
+    const organization = await this.prisma.organization.create({
+      data: {
+        name: dto.name,
+        memberships: { create: { user_id: userId, role: WorkspaceRole.OWNER } },
+      },
+    });
+
+    return { ...organization, role: WorkspaceRole.OWNER };
+  }
+
+  async findAllForUser(userId: string): Promise<OrganizationResponseDto[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { user_id: userId },
+      include: { organization: true },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return memberships.map(({ organization, role }) => ({ ...organization, role }));
+  }
+
+  async findOne(organizationId: string, role: WorkspaceRole): Promise<OrganizationResponseDto> {
+    const organization = await this.prisma.organization.findUnique({ where: { id: organizationId } });
+
+    if (!organization) {
+      throw new NotFoundException('Workspace not found');
+    }
+
+    return { ...organization, role };
+  }
+
+  async update(organizationId: string, dto: UpdateOrganizationDto): Promise<OrganizationResponseDto> {
+    const organization = await this.prisma.organization.update({
+      where: { id: organizationId },
+      data: { name: dto.name },
+    });
+
+    return { ...organization, role: WorkspaceRole.OWNER };
+  }
+
+  // Workspace documents must be deleted first so their Logos records and stored files are cleaned up
+  async delete(organizationId: string) {
+    const documents = await this.prisma.document.count({ where: { organization_id: organizationId } });
+
+    if (documents > 0) {
+      throw new ConflictException('Delete the workspace documents before deleting the workspace');
+    }
+
+    await this.prisma.organization.delete({ where: { id: organizationId } });
+
+    return { message: 'Workspace deleted successfully' };
+  }
+
+  async listMembers(organizationId: string): Promise<MemberResponseDto[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { organization_id: organizationId },
+      include: { user: { select: { email: true, name: true } } },
+      orderBy: { created_at: 'asc' },
+    });
+
+    return memberships.map((membership) => ({
+      user_id: membership.user_id,
+      email: membership.user.email,
+      name: membership.user.name,
+      role: membership.role,
+      joined_at: membership.created_at,
+    }));
+  }
+
+  async updateMember(organizationId: string, memberId: string, role: WorkspaceRole) {
+    const membership = await this.findMembership(organizationId, memberId);
+
+    if (membership.role === WorkspaceRole.OWNER && role !== WorkspaceRole.OWNER) {
+      await this.assertAnotherOwner(organizationId);
+    }
+
+    await this.prisma.membership.update({ where: { id: membership.id }, data: { role } });
+
+    return { user_id: memberId, role };
+  }
+
+  async removeMember(organizationId: string, memberId: string) {
+    const membership = await this.findMembership(organizationId, memberId);
+
+    if (membership.role === WorkspaceRole.OWNER) {
+      await this.assertAnotherOwner(organizationId);
+    }
+
+    await this.prisma.membership.delete({ where: { id: membership.id } });
+
+    return { message: 'Member removed successfully' };
+  }
+
+  private async findMembership(organizationId: string, userId: string) {
+    const membership = await this.prisma.membership.findUnique({
+      where: { organization_id_user_id: { organization_id: organizationId, user_id: userId } },
+    });
+
+    if (!membership) {
+      throw new NotFoundException('Member not found');
+    }
+
+    return membership;
+  }
+
+  // A workspace always keeps at least one owner
+  private async assertAnotherOwner(organizationId: string) {
+    const owners = await this.prisma.membership.count({
+      where: { organization_id: organizationId, role: WorkspaceRole.OWNER },
+    });
+
+    if (owners <= 1) {
+      throw new BadRequestException('A workspace must keep at least one owner');
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { IsEnum, IsInt, IsISO8601, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ProcessingTask, ProcessingTaskOutcome, ProcessingTaskType } from '@prisma/client';
+
+export class ListTasksQueryDto {
+  @IsOptional()
+  @IsEnum(ProcessingTaskType)
+  type?: ProcessingTaskType;
+
+  @IsOptional()
+  @IsEnum(ProcessingTaskOutcome)
+  outcome?: ProcessingTaskOutcome;
+
+  @IsOptional()
+  @IsUUID()
+  document_id?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  from?: string;
+
+  @IsOptional()
+  @IsISO8601()
+  to?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
+
+export class TaskTypeStatsDto {
+  type: ProcessingTaskType;
+  total: number;
+  failures: number;
+  failure_rate: number; // 0..1
+  p95_duration_ms: number | null;
+}
+
+export class ClassificationProcessingStatsDto {
+  classification: string | null;
+  documents: number;
+  p95_processing_ms: number | null;
+}
+
+export class TaskPageDto {
+  items: ProcessingTask[];
+  total: number;
+  page: number;
+  limit: number;
+  stats: {
+    by_type: TaskTypeStatsDto[];
+    by_classification: ClassificationProcessingStatsDto[];
+  };
+}
@@ -0,0 +1,17 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { ProcessingTasksService } from './processing-tasks.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ListTasksQueryDto } from './dto/processing-task.dto';
+
+@Controller('tasks')
+@Roles(Role.ADMIN)
+export class ProcessingTasksController {
+  constructor(private readonly processingTasksService: ProcessingTasksService) {}
+
+  // Filtered task history plus aggregate stats over the same filters
+  @Get()
+  async findAll(@Query() query: ListTasksQueryDto) {
+    return this.processingTasksService.findAll(query);
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ProcessingTasksController } from './processing-tasks.controller';
+import { ProcessingTasksService } from './processing-tasks.service';
+
+@Module({
+  controllers: [ProcessingTasksController],
+  providers: [ProcessingTasksService],
+  exports: [ProcessingTasksService],
+})
+export class ProcessingTasksModule {}
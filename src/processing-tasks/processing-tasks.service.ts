@@ -0,0 +1,199 @@
+import { Injectable, HttpException, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, ProcessingTaskOutcome, ProcessingTaskType } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import {
+  ClassificationProcessingStatsDto,
+  ListTasksQueryDto,
+  TaskPageDto,
+  TaskTypeStatsDto,
+} from './dto/processing-task.dto';
+
+// Task rows are kept this long
+const TASK_RETENTION_DAYS = 30;
+
+export interface TaskContext {
+  type: ProcessingTaskType;
+  documentId?: string | null;
+  logosId?: string | null;
+}
+
+@Injectable()
+export class ProcessingTasksService {
+  private readonly logger = new Logger(ProcessingTasksService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Run a Logos call and record its timing and outcome; the call's result or error passes through unchanged.
+  // `describe` adds context only known from the result, such as the Logos id assigned by an upload.
+  async track<T>(
+    context: TaskContext,
+    call: () => Promise<T>,
+    describe?: (result: T) => Partial<TaskContext>,
+  ): Promise<T> {
+    const startedAt = new Date();
+
+    try {
+      const result = await call();
+      await this.record({ ...context, ...describe?.(result) }, startedAt, ProcessingTaskOutcome.SUCCESS);
+      return result;
+    } catch (error) {
+      await this.record(context, startedAt, ProcessingTaskOutcome.FAILURE, error);
+      throw error;
+    }
+  }
+
+  // Uploads are tracked before the document exists; attach them once it does
+  async linkDocument(logosId: string, documentId: string) {
+    await this.prisma.processingTask
+      .updateMany({ where: { logos_id: logosId, document_id: null }, data: { document_id: documentId } })
+      .catch((error) => this.logger.warn(`Failed to link tasks for ${logosId}: ${error.message}`));
+  }
+
+  async findAll(query: ListTasksQueryDto): Promise<TaskPageDto> {
+    const page = query.page ?? 1;
+    const limit = query.limit ?? 50;
+    const where = this.buildFilter(query);
+
+    const [items, total, byType, byClassification] = await Promise.all([
+      this.prisma.processingTask.findMany({
+        where,
+        orderBy: [{ started_at: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.processingTask.count({ where }),
+      this.statsByType(query),
+      this.statsByClassification(query),
+    ]);
+
+    return { items, total, page, limit, stats: { by_type: byType, by_classification: byClassification } };
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async pruneTasks() {
+    const cutoff = new Date(Date.now() - TASK_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { count } = await this.prisma.processingTask.deleteMany({
+      where: { started_at: { lt: cutoff } },
+    });
+
+    if (count) {
+      this.logger.log(`Pruned ${count} processing tasks`);
+    }
+  }
+
+  // Monitoring must never break the operation being monitored
+  private async record(context: TaskContext, startedAt: Date, outcome: ProcessingTaskOutcome, error?: unknown) {
+    const finishedAt = new Date();
+
+    try {
+      await this.prisma.processingTask.create({
+        data: {
+          document_id: context.documentId ?? null,
+          logos_id: context.logosId ?? null,
+          type: context.type,
+          outcome,
+          // Logos errors surface as HttpExceptions carrying the upstream status
+          http_status: error instanceof HttpException ? error.getStatus() : null,
+          error: error instanceof Error ? error.message : error ? String(error) : null,
+          started_at: startedAt,
+          finished_at: finishedAt,
+          duration_ms: finishedAt.getTime() - startedAt.getTime(),
+        },
+      });
+    } catch (recordError) {
+      this.logger.warn(`Failed to record ${context.type} task: ${recordError.message}`);
+    }
+  }
+
+  private buildFilter(query: ListTasksQueryDto): Prisma.ProcessingTaskWhereInput {
+    return {
+      ...(query.type && { type: query.type }),
+      ...(query.outcome && { outcome: query.outcome }),
+      ...(query.document_id && { document_id: query.document_id }),
+      ...((query.from || query.to) && {
+        started_at: {
+          ...(query.from && { gte: new Date(query.from) }),
+          ...(query.to && { lte: new Date(query.to) }),
+        },
+      }),
+    };
+  }
+
+  // Same filters as the listing, expressed for the raw aggregate query
+  private buildSqlFilter(query: ListTasksQueryDto): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [Prisma.sql`TRUE`];
+
+    if (query.type) {
+      conditions.push(Prisma.sql`"type" = ${query.type}::"ProcessingTaskType"`);
+    }
+    if (query.outcome) {
+      conditions.push(Prisma.sql`"outcome" = ${query.outcome}::"ProcessingTaskOutcome"`);
+    }
+    if (query.document_id) {
+      conditions.push(Prisma.sql`"document_id" = ${query.document_id}`);
+    }
+    if (query.from) {
+      conditions.push(Prisma.sql`"started_at" >= ${new Date(query.from)}`);
+    }
+    if (query.to) {
+      conditions.push(Prisma.sql`"started_at" <= ${new Date(query.to)}`);
+    }
+
+    return Prisma.join(conditions, ' AND ');
+  }
+
+  private async statsByType(query: ListTasksQueryDto): Promise<TaskTypeStatsDto[]> {
+    const rows = await this.prisma.$queryRaw<
+      { type: ProcessingTaskType; total: number; failures: number; p95_duration_ms: number | null }[]
+    >`
+      SELECT "type",
+             COUNT(*)::int AS total,
+             COUNT(*) FILTER (WHERE "outcome" = 'FAILURE')::int AS failures,
+             percentile_cont(0.95) WITHIN GROUP (ORDER BY "duration_ms") AS p95_duration_ms
+      FROM "ProcessingTask"
+      WHERE ${this.buildSqlFilter(query)}
+      GROUP BY "type"
+      ORDER BY "type"
+    `;
+
+    return rows.map((row) => ({
+      ...row,
+      failure_rate: row.total ? row.failures / row.total : 0,
+      p95_duration_ms: row.p95_duration_ms === null ? null : Math.round(row.p95_duration_ms),
+    }));
+  }
+
+  // Time from handing a version to Logos until it completed, for versions completed in the requested window
+  private async statsByClassification(query: ListTasksQueryDto): Promise<ClassificationProcessingStatsDto[]> {
+    const conditions: Prisma.Sql[] = [Prisma.sql`"status" = 'COMPLETED'`, Prisma.sql`"processed_at" IS NOT NULL`];
+    if (query.document_id) {
+      conditions.push(Prisma.sql`"document_id" = ${query.document_id}`);
+    }
+    if (query.from) {
+      conditions.push(Prisma.sql`"processed_at" >= ${new Date(query.from)}`);
+    }
+    if (query.to) {
+      conditions.push(Prisma.sql`"processed_at" <= ${new Date(query.to)}`);
+    }
+
+    const rows = await this.prisma.$queryRaw<
+      { classification: string | null; documents: number; p95_processing_ms: number | null }[]
+    >`
+      SELECT "classification",
+             COUNT(*)::int AS documents,
+             percentile_cont(0.95) WITHIN GROUP (
+               ORDER BY EXTRACT(EPOCH FROM ("processed_at" - "submitted_at")) * 1000
+             ) AS p95_processing_ms
+      FROM "DocumentVersion"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      GROUP BY "classification"
+      ORDER BY documents DESC
+    `;
+
+    return rows.map((row) => ({
+      ...row,
+      p95_processing_ms: row.p95_processing_ms === null ? null : Math.round(row.p95_processing_ms),
+    }));
+  }
+}
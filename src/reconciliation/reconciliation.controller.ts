@@ -0,0 +1,21 @@
+import { Controller, Get, Post, Query, DefaultValuePipe, ParseIntPipe, HttpCode, HttpStatus } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { ReconciliationService } from './reconciliation.service';
+import { Roles } from '../auth/decorators/roles.decorator';
+
+@Controller('reconciliation')
+@Roles(Role.ADMIN)
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Get('runs')
+  async listRuns(@Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number) {
+    return this.reconciliationService.listRuns(limit);
+  }
+
+  @Post('runs')
+  @HttpCode(HttpStatus.OK)
+  async triggerRun() {
+    return this.reconciliationService.reconcile();
+  }
+}
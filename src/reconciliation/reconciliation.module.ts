@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+import { LogosModule } from '../logos/logos.module';
+import { DocumentsModule } from '../documents/documents.module';
+import { ProcessingTasksModule } from '../processing-tasks/processing-tasks.module';
+
+@Module({
+  imports: [LogosModule, DocumentsModule, ProcessingTasksModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
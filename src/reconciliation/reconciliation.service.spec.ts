@@ -0,0 +1,217 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { DocumentStatus } from '@prisma/client';
+import { ReconciliationService } from './reconciliation.service';
+import { DocumentsService } from '../documents/documents.service';
+import { DocumentVersionsService } from '../documents/document-versions.service';
+import { DocumentEventsService } from '../documents/document-events.service';
+import { DocumentAccessService } from '../access/document-access.service';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService } from '../logos/logos.service';
+import { StorageAdapter } from '../storage/storage.adapter';
+import { ProcessingTasksService } from '../processing-tasks/processing-tasks.service';
+import { UsageService } from '../usage/usage.service';
+import { createTable, createTransaction, InMemoryTable } from '../../test/utils/in-memory-prisma';
+
+interface StoredDocument {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  filename: string;
+  content_type: string;
+  storage_key: string | null;
+  checksum: string;
+  dedupe_key: string | null;
+  logos_id: string | null;
+  status: DocumentStatus;
+  summary: string | null;
+  classification: string | null;
+  error_message: string | null;
+  current_version: number;
+  sync_attempts: number;
+  next_sync_at: Date | null;
+  created_at: Date;
+}
+
+interface StoredVersion {
+  id: string;
+  document_id: string;
+  version_number: number;
+  logos_id: string | null;
+  status: DocumentStatus;
+  submitted_at: Date;
+  processed_at: Date | null;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+describe('ReconciliationService', () => {
+  let document: InMemoryTable<StoredDocument>;
+  let documentVersion: InMemoryTable<StoredVersion>;
+  let reconciliation: ReconciliationService;
+  let versions: DocumentVersionsService;
+  let documents: DocumentsService;
+
+  let uploads: number;
+
+  const hoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR);
+
+  // A document uploaded long ago whose only version Logos never finished
+  const storeStuckDocument = async (submittedHoursAgo: number) => {
+    const stored = await document.create({ data: { created_at: hoursAgo(48), logos_id: 'logos-1' } });
+    await documentVersion.create({
+      data: {
+        document_id: stored.id,
+        version_number: 1,
+        logos_id: 'logos-1',
+        submitted_at: hoursAgo(submittedHoursAgo),
+      },
+    });
+    return stored;
+  };
+
+  const statusOf = (id: string) => document.rows.find((row) => row.id === id)?.status;
+
+  beforeEach(async () => {
+    uploads = 1;
+    document = createTable<StoredDocument>({
+      create: (data) => ({
+        id: `document-${document.rows.length + 1}`,
+        user_id: 'user-1',
+        organization_id: null,
+        filename: 'report.pdf',
+        content_type: 'application/pdf',
+        storage_key: 'documents/user-1/report',
+        checksum: 'checksum-1',
+        dedupe_key: null,
+        logos_id: null,
+        status: DocumentStatus.PENDING,
+        summary: null,
+        classification: null,
+        error_message: null,
+        current_version: 1,
+        sync_attempts: 0,
+        next_sync_at: null,
+        created_at: new Date(),
+        ...data,
+      }),
+    });
+    documentVersion = createTable<StoredVersion>({
+      create: (data) => ({
+        id: `version-${documentVersion.rows.length + 1}`,
+        document_id: '',
+        version_number: 1,
+        logos_id: null,
+        status: DocumentStatus.PENDING,
+        submitted_at: new Date(),
+        processed_at: null,
+        ...data,
+      }),
+    });
+    const reconciliationRun = createTable({ create: (data) => ({ id: 'run-1', ...data }) });
+
+    // Only the two raw queries a run makes are understood: stale documents, and superseded versions (none here)
+    const $queryRaw = jest.fn(async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      if (!strings.join('?').includes('COALESCE(v."submitted_at", d."created_at")')) {
+        return [];
+      }
+      const cutoff = values[0] as Date;
+      return document.rows
+        .filter((row) => row.status === DocumentStatus.PENDING || row.status === DocumentStatus.PROCESSING)
+        .filter((row) => {
+          const current = documentVersion.rows.find(
+            (version) => version.document_id === row.id && version.version_number === row.current_version,
+          );
+          return (current?.submitted_at ?? row.created_at) < cutoff;
+        })
+        .map(({ id }) => ({ id }));
+    });
+    const client = { document, documentVersion, reconciliationRun, $queryRaw };
+    const prisma = { ...client, $transaction: createTransaction(() => client) };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ReconciliationService,
+        DocumentsService,
+        DocumentVersionsService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: DocumentAccessService,
+          useValue: {
+            authorize: jest.fn(async (_userId: string, id: string) => ({
+              document: await document.findUniqueOrThrow({ where: { id } }),
+            })),
+          },
+        },
+        {
+          provide: LogosService,
+          useValue: {
+            uploadDocument: jest.fn(async () => ({ id: `logos-${++uploads}` })),
+            getDocumentStatus: jest.fn(async () => ({ status: DocumentStatus.PROCESSING })),
+            deleteDocument: jest.fn(),
+          },
+        },
+        {
+          provide: StorageAdapter,
+          useValue: { put: jest.fn(), get: jest.fn(), stat: jest.fn(async () => ({ size: 3 })) },
+        },
+        { provide: DocumentEventsService, useValue: { publish: jest.fn() } },
+        { provide: ProcessingTasksService, useValue: { track: jest.fn(async (_meta, run: () => unknown) => run()) } },
+        {
+          provide: UsageService,
+          useValue: {
+            assertStorageAvailable: jest.fn(),
+            withinStorageQuota: jest.fn((_userId, _bytes, _documents, write: (tx: unknown) => unknown) =>
+              write(prisma),
+            ),
+          },
+        },
+        { provide: SchedulerRegistry, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => (key === 'reconciliation.maxAgeHours' ? 24 : undefined) },
+        },
+      ],
+    }).compile();
+
+    reconciliation = module.get(ReconciliationService);
+    versions = module.get(DocumentVersionsService);
+    documents = module.get(DocumentsService);
+  });
+
+  it('fails documents whose current version was submitted longer ago than the max age', async () => {
+    const stuck = await storeStuckDocument(30);
+
+    const run = await reconciliation.reconcile();
+
+    expect(statusOf(stuck.id)).toBe(DocumentStatus.FAILED);
+    expect(run).toMatchObject({ timed_out: 1 });
+  });
+
+  it('gives a new version of an old document the full max age', async () => {
+    const old = await storeStuckDocument(30);
+
+    await versions.createVersion('user-1', old.id, {
+      originalname: 'report-v2.pdf',
+      mimetype: 'application/pdf',
+      size: 3,
+      buffer: Buffer.from('new'),
+    });
+    const run = await reconciliation.reconcile();
+
+    expect(statusOf(old.id)).toBe(DocumentStatus.PROCESSING);
+    expect(run).toMatchObject({ timed_out: 0 });
+  });
+
+  it('gives a reprocessed document the full max age', async () => {
+    const old = await storeStuckDocument(30);
+    await document.update({ where: { id: old.id }, data: { status: DocumentStatus.FAILED } });
+
+    await documents.reprocess('user-1', old.id);
+    const run = await reconciliation.reconcile();
+
+    expect(statusOf(old.id)).toBe(DocumentStatus.PROCESSING);
+    expect(run).toMatchObject({ timed_out: 0 });
+  });
+});
@@ -0,0 +1,249 @@
+import { Injectable, Logger, OnModuleInit, ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { Document, DocumentStatus, DocumentVersion, ProcessingTaskType, ReconciliationRun } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { LogosService } from '../logos/logos.service';
+import { DocumentsService } from '../documents/documents.service';
+import { ProcessingTasksService } from '../processing-tasks/processing-tasks.service';
+
+const RECONCILIATION_INTERVAL = 'document-reconciliation';
+const NON_TERMINAL_STATUSES = [DocumentStatus.PENDING, DocumentStatus.PROCESSING];
+
+// Upper bound on batches per run so a misbehaving Logos can't keep one run alive forever
+const MAX_BATCHES_PER_RUN = 20;
+
+@Injectable()
+export class ReconciliationService implements OnModuleInit {
+  private readonly logger = new Logger(ReconciliationService.name);
+  private running = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logosService: LogosService,
+    private readonly documentsService: DocumentsService,
+    private readonly configService: ConfigService,
+    private readonly schedulerRegistry: SchedulerRegistry,
+    private readonly processingTasks: ProcessingTasksService,
+  ) {}
+
+  onModuleInit() {
+    if (!this.configService.get<boolean>('reconciliation.enabled')) {
+      this.logger.log('Background reconciliation is disabled');
+      return;
+    }
+
+    const intervalMs = this.configService.get<number>('reconciliation.intervalMs') ?? 60000;
+    const interval = setInterval(() => {
+      this.reconcile().catch((error) => this.logger.error(`Reconciliation run failed: ${error.message}`));
+    }, intervalMs);
+
+    this.schedulerRegistry.addInterval(RECONCILIATION_INTERVAL, interval);
+  }
+
+  async listRuns(limit: number): Promise<ReconciliationRun[]> {
+    return this.prisma.reconciliationRun.findMany({
+      orderBy: { started_at: 'desc' },
+      take: Math.min(Math.max(limit, 1), 100),
+    });
+  }
+
+  async reconcile(): Promise<ReconciliationRun> {
+    if (this.running) {
+      throw new ConflictException('A reconciliation run is already in progress');
+    }
+    this.running = true;
+
+    try {
+      const run = await this.prisma.reconciliationRun.create({ data: {} });
+      const counters = { checked: 0, updated: 0, timed_out: 0, errors: 0 };
+      let errorMessage: string | null = null;
+
+      try {
+        counters.timed_out = await this.expireStaleDocuments();
+
+        const batchSize = this.configService.get<number>('reconciliation.batchSize') ?? 25;
+        for (let i = 0; i < MAX_BATCHES_PER_RUN; i++) {
+          const batch = await this.findDueDocuments(batchSize);
+          const results = await Promise.allSettled(batch.map((document) => this.reconcileDocument(document)));
+
+          for (const result of results) {
+            counters.checked++;
+            if (result.status === 'rejected') {
+              counters.errors++;
+            } else if (result.value) {
+              counters.updated++;
+            }
+          }
+
+          if (batch.length < batchSize) {
+            break;
+          }
+        }
+
+        const versions = await this.reconcileSupersededVersions(batchSize);
+        counters.checked += versions.checked;
+        counters.updated += versions.updated;
+        counters.timed_out += versions.timed_out;
+        counters.errors += versions.errors;
+      } catch (error) {
+        errorMessage = error.message;
+        this.logger.error(`Reconciliation run ${run.id} aborted: ${error.message}`);
+      }
+
+      if (counters.updated || counters.timed_out || counters.errors) {
+        this.logger.log(
+          `Reconciliation run ${run.id}: checked=${counters.checked} updated=${counters.updated} ` +
+            `timed_out=${counters.timed_out} errors=${counters.errors}`,
+        );
+      }
+
+      return this.prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: { ...counters, error_message: errorMessage, finished_at: new Date() },
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Mark documents that have been stuck for longer than the configured max age as FAILED. Age counts from when the
+  // current version was last handed to Logos, so a new version or a reprocess gets the full time again.
+  private async expireStaleDocuments(): Promise<number> {
+    const maxAgeHours = this.configService.get<number>('reconciliation.maxAgeHours') ?? 24;
+    const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+
+    const stale = await this.prisma.$queryRaw<Pick<Document, 'id'>[]>`
+      SELECT d."id"
+      FROM "Document" d
+      LEFT JOIN "DocumentVersion" v ON v."document_id" = d."id" AND v."version_number" = d."current_version"
+      WHERE d."status" IN ('PENDING', 'PROCESSING')
+        AND COALESCE(v."submitted_at", d."created_at") < ${cutoff}
+    `;
+
+    for (const document of stale) {
+      await this.documentsService.applyProcessingResult(document.id, {
+        status: DocumentStatus.FAILED,
+        error_message: `Processing did not complete within ${maxAgeHours} hours`,
+      });
+    }
+
+    return stale.length;
+  }
+
+  private async findDueDocuments(take: number): Promise<Document[]> {
+    return this.prisma.document.findMany({
+      where: {
+        status: { in: NON_TERMINAL_STATUSES },
+        logos_id: { not: null },
+        OR: [{ next_sync_at: null }, { next_sync_at: { lte: new Date() } }],
+      },
+      orderBy: { next_sync_at: { sort: 'asc', nulls: 'first' } },
+      take,
+    });
+  }
+
+  // Returns true when the local record changed
+  private async reconcileDocument(document: Document): Promise<boolean> {
+    let changed = false;
+
+    try {
+      const logosId = document.logos_id!;
+      const logosStatus = await this.processingTasks.track(
+        { type: ProcessingTaskType.STATUS_POLL, documentId: document.id, logosId },
+        () => this.logosService.getDocumentStatus(logosId),
+      );
+      const result = this.documentsService.toProcessingResult(logosStatus);
+
+      changed =
+        result.status !== document.status ||
+        result.summary !== document.summary ||
+        result.classification !== document.classification;
+
+      if (changed) {
+        await this.documentsService.applyProcessingResult(document.id, result);
+      }
+    } finally {
+      // Back off exponentially while a document shows no progress, including when Logos errors
+      const attempts = changed ? 0 : document.sync_attempts + 1;
+      await this.prisma.document.update({
+        where: { id: document.id },
+        data: {
+          sync_attempts: attempts,
+          next_sync_at: new Date(Date.now() + this.backoffDelay(attempts)),
+          last_synced_at: new Date(),
+        },
+      });
+    }
+
+    return changed;
+  }
+
+  // A version replaced while Logos was still processing it only hears back through webhooks, and a missed one
+  // would show as PROCESSING in the version history forever. Each such version is checked at most once per
+  // backoff maximum, least recently touched first, and expires like a document once it is too old.
+  private async reconcileSupersededVersions(take: number) {
+    const counters = { checked: 0, updated: 0, timed_out: 0, errors: 0 };
+    const maxAgeHours = this.configService.get<number>('reconciliation.maxAgeHours') ?? 24;
+    const staleBefore = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000);
+    const recheckBefore = new Date(
+      Date.now() - (this.configService.get<number>('reconciliation.backoffMaxMs') ?? 3600000),
+    );
+
+    const versions = await this.prisma.$queryRaw<
+      Pick<DocumentVersion, 'id' | 'document_id' | 'logos_id' | 'submitted_at'>[]
+    >`
+      SELECT v."id", v."document_id", v."logos_id", v."submitted_at"
+      FROM "DocumentVersion" v
+      JOIN "Document" d ON d."id" = v."document_id"
+      WHERE v."status" IN ('PENDING', 'PROCESSING')
+        AND v."logos_id" IS NOT NULL
+        AND v."version_number" <> d."current_version"
+        AND v."updated_at" <= ${recheckBefore}
+      ORDER BY v."updated_at"
+      LIMIT ${take}
+    `;
+
+    for (const version of versions) {
+      counters.checked++;
+      try {
+        if (version.submitted_at < staleBefore) {
+          const expired = await this.documentsService.applyVersionResult(version.id, {
+            status: DocumentStatus.FAILED,
+            error_message: `Processing did not complete within ${maxAgeHours} hours`,
+          });
+          counters.timed_out += Number(expired);
+          continue;
+        }
+
+        const logosId = version.logos_id!;
+        const logosStatus = await this.processingTasks.track(
+          { type: ProcessingTaskType.STATUS_POLL, documentId: version.document_id, logosId },
+          () => this.logosService.getDocumentStatus(logosId),
+        );
+        if (
+          await this.documentsService.applyVersionResult(
+            version.id,
+            this.documentsService.toProcessingResult(logosStatus),
+          )
+        ) {
+          counters.updated++;
+        }
+      } catch (error) {
+        counters.errors++;
+        this.logger.warn(`Reconciling version ${version.id} failed: ${error.message}`);
+      } finally {
+        // Moves the version to the back of the queue whether or not it changed
+        await this.prisma.documentVersion.update({ where: { id: version.id }, data: { updated_at: new Date() } });
+      }
+    }
+
+    return counters;
+  }
+
+  private backoffDelay(attempts: number): number {
+    const base = this.configService.get<number>('reconciliation.backoffBaseMs') ?? 30000;
+    const max = this.configService.get<number>('reconciliation.backoffMaxMs') ?? 3600000;
+    return Math.min(base * 2 ** attempts, max);
+  }
+}
@@ -0,0 +1,135 @@
+import { Logger } from '@nestjs/common';
+import { createReadStream, createWriteStream } from 'fs';
+import { copyFile, mkdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { ByteRange, PresignedUpload, StorageAdapter, StoredObjectInfo } from './storage.adapter';
+
+export interface LocalStorageOptions {
+  rootPath: string;
+  publicUrl: string; // Base URL of this API, used to build upload URLs
+  signingSecret?: string; // Required for presigned uploads
+}
+
+export class UploadTooLargeError extends Error {}
+
+export class LocalStorageAdapter extends StorageAdapter {
+  private readonly logger = new Logger(LocalStorageAdapter.name);
+  private readonly root: string;
+
+  constructor(private readonly options: LocalStorageOptions) {
+    super();
+    this.root = resolve(options.rootPath);
+    this.logger.log(`Storing files under ${this.root}`);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.resolveKey(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  // Streams an upload to disk, aborting once it exceeds `maxBytes`. The file is written aside and only replaces
+  // the stored object if `canCommit` still agrees once everything was received.
+  async putStream(
+    key: string,
+    body: Readable,
+    maxBytes: number,
+    canCommit: () => Promise<boolean> = async () => true,
+  ): Promise<boolean> {
+    const path = this.resolveKey(key);
+    const partial = `${path}.${randomUUID()}.partial`;
+    await mkdir(dirname(path), { recursive: true });
+
+    let received = 0;
+    const limiter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(received > maxBytes ? new UploadTooLargeError(`Upload exceeds ${maxBytes} bytes`) : null, chunk);
+      },
+    });
+
+    try {
+      await pipeline(body, limiter, createWriteStream(partial));
+      if (!(await canCommit())) {
+        await rm(partial, { force: true });
+        return false;
+      }
+      await rename(partial, path);
+      return true;
+    } catch (error) {
+      await rm(partial, { force: true });
+      throw error;
+    }
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    return createReadStream(this.resolveKey(key), range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async stat(key: string): Promise<StoredObjectInfo | null> {
+    try {
+      const stats = await stat(this.resolveKey(key));
+      return { size: stats.size };
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolveKey(key), { force: true });
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    const path = this.resolveKey(to);
+    await mkdir(dirname(path), { recursive: true });
+    await copyFile(this.resolveKey(from), path);
+  }
+
+  // Points at StorageController, which stands in for S3 when running locally
+  async createUploadUrl(key: string, contentType: string, expiresAt: Date): Promise<PresignedUpload> {
+    const expires = Math.floor(expiresAt.getTime() / 1000);
+    const query = new URLSearchParams({
+      key,
+      expires: String(expires),
+      signature: this.sign(key, expires),
+    });
+
+    return {
+      url: `${this.options.publicUrl.replace(/\/$/, '')}/storage/uploads?${query.toString()}`,
+      method: 'PUT',
+      headers: { 'Content-Type': contentType },
+    };
+  }
+
+  verifyUploadSignature(key: string, expires: number, signature: string): boolean {
+    if (!Number.isInteger(expires) || expires * 1000 < Date.now()) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(key, expires), 'utf8');
+    const provided = Buffer.from(signature, 'utf8');
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  private sign(key: string, expires: number): string {
+    if (!this.options.signingSecret) {
+      throw new Error('STORAGE_SIGNING_SECRET is required for presigned uploads with the local storage driver');
+    }
+    return createHmac('sha256', this.options.signingSecret).update(`${key}:${expires}`).digest('hex');
+  }
+
+  // Keys are generated by us, but never let one escape the storage root
+  private resolveKey(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,35 @@
+import { Readable } from 'stream';
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export interface StoredObjectInfo {
+  size: number;
+  contentType?: string;
+}
+
+export interface PresignedUpload {
+  url: string;
+  method: 'PUT';
+  headers: Record<string, string>; // Headers the client must send with the upload
+}
+
+// Injection token and contract for the configured storage backend
+export abstract class StorageAdapter {
+  abstract put(key: string, body: Buffer, contentType: string): Promise<void>;
+
+  abstract get(key: string, range?: ByteRange): Promise<Readable>;
+
+  // Returns null when the object does not exist
+  abstract stat(key: string): Promise<StoredObjectInfo | null>;
+
+  abstract delete(key: string): Promise<void>;
+
+  // Copies the object at `from` to `to`, leaving `from` in place
+  abstract copy(from: string, to: string): Promise<void>;
+
+  // Short-lived URL the client can upload `key` to directly
+  abstract createUploadUrl(key: string, contentType: string, expiresAt: Date): Promise<PresignedUpload>;
+}
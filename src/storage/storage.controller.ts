@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Put,
+  Query,
+  Req,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  ForbiddenException,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { StorageAdapter } from './storage.adapter';
+import { LocalStorageAdapter, UploadTooLargeError } from './local-storage.adapter';
+import { PrismaService } from '../database/prisma.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { MAX_UPLOAD_SIZE } from '../documents/documents.constants';
+
+// Receives presigned uploads when the local storage driver is active; S3 handles these itself
+@Controller('storage')
+export class StorageController {
+  constructor(
+    private readonly storage: StorageAdapter,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  @Public()
+  @Put('uploads')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async upload(
+    @Query('key') key: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Req() req: Request,
+  ): Promise<void> {
+    if (!(this.storage instanceof LocalStorageAdapter)) {
+      throw new NotFoundException();
+    }
+
+    if (!key || !signature || !this.storage.verifyUploadSignature(key, Number(expires), signature)) {
+      throw new ForbiddenException('Invalid or expired upload URL');
+    }
+
+    // A signed URL stays valid until it expires, but confirming the upload consumes its pending record. Checked
+    // again before the file lands, so an upload still streaming when the confirm came in is thrown away.
+    if (!(await this.isPending(key))) {
+      throw new ForbiddenException('Upload has already been confirmed or expired');
+    }
+
+    try {
+      if (!(await this.storage.putStream(key, req, MAX_UPLOAD_SIZE, () => this.isPending(key)))) {
+        throw new ForbiddenException('Upload has already been confirmed or expired');
+      }
+    } catch (error) {
+      if (error instanceof UploadTooLargeError) {
+        throw new PayloadTooLargeException(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async isPending(key: string) {
+    const pending = await this.prisma.pendingUpload.findUnique({
+      where: { storage_key: key },
+      select: { expires_at: true },
+    });
+    return !!pending && pending.expires_at > new Date();
+  }
+}
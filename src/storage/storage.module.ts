@@ -0,0 +1,29 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageAdapter } from './storage.adapter';
+import { StorageController } from './storage.controller';
+import { LocalStorageAdapter } from './local-storage.adapter';
+import { S3StorageAdapter, S3StorageOptions } from './s3-storage.adapter';
+
+@Global()
+@Module({
+  controllers: [StorageController],
+  providers: [
+    {
+      provide: StorageAdapter,
+      useFactory: (configService: ConfigService): StorageAdapter => {
+        if (configService.get<string>('storage.driver') === 's3') {
+          return new S3StorageAdapter(configService.get<S3StorageOptions>('storage.s3')!);
+        }
+        return new LocalStorageAdapter({
+          rootPath: configService.get<string>('storage.localPath') ?? './storage',
+          publicUrl: configService.get<string>('app.publicUrl') ?? 'http://localhost:3000',
+          signingSecret: configService.get<string>('storage.signingSecret'),
+        });
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [StorageAdapter],
+})
+export class StorageModule {}
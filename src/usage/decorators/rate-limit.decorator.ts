@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { RateLimitGroup } from '../usage.constants';
+
+export const RATE_LIMIT_GROUP_KEY = 'rateLimitGroup';
+// Per-minute request limit the route counts against
+export const RateLimit = (group: RateLimitGroup) => SetMetadata(RATE_LIMIT_GROUP_KEY, group);
@@ -0,0 +1,84 @@
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { Role } from '@prisma/client';
+
+export class UsageLimitsDto {
+  api_requests_per_minute: number;
+  upload_requests_per_minute: number;
+  chat_requests_per_minute: number;
+  max_documents: number;
+  max_storage_bytes: number;
+  chat_messages_per_day: number;
+}
+
+export class UsageLimitOverridesDto {
+  api_requests_per_minute: number | null;
+  upload_requests_per_minute: number | null;
+  chat_requests_per_minute: number | null;
+  max_documents: number | null;
+  max_storage_bytes: number | null;
+  chat_messages_per_day: number | null;
+}
+
+// Omitted fields are left as they are; null goes back to the default for the user's role
+export class UpdateUsageLimitsDto {
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  api_requests_per_minute?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  upload_requests_per_minute?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  chat_requests_per_minute?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  max_documents?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(Number.MAX_SAFE_INTEGER)
+  max_storage_bytes?: number | null;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  chat_messages_per_day?: number | null;
+}
+
+export class UserLimitsResponseDto {
+  user_id: string;
+  role: Role;
+  limits: UsageLimitsDto; // What applies now: overrides, else the role defaults
+  overrides: UsageLimitOverridesDto;
+  updated_by: string | null;
+  updated_at: Date | null;
+}
+
+export class UsageMeterDto {
+  used: number;
+  limit: number;
+  remaining: number;
+  resets_at: Date | null; // Null for quotas that only free up when documents are deleted
+}
+
+export class RequestUsageDto {
+  api: UsageMeterDto;
+  upload: UsageMeterDto;
+  chat: UsageMeterDto;
+}
+
+export class UsageResponseDto {
+  role: Role;
+  documents: UsageMeterDto;
+  storage_bytes: UsageMeterDto;
+  chat_messages_today: UsageMeterDto;
+  requests_per_minute: RequestUsageDto;
+}
@@ -0,0 +1,16 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { UsageLimitExceededException } from '../usage-limit-exceeded.exception';
+
+// Adds Retry-After to usage limit responses
+@Catch(UsageLimitExceededException)
+export class UsageLimitFilter implements ExceptionFilter {
+  catch(exception: UsageLimitExceededException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    if (exception.retryAfter !== undefined) {
+      response.setHeader('Retry-After', String(exception.retryAfter));
+    }
+    response.status(exception.getStatus()).json(exception.getResponse());
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { RATE_LIMIT_GROUP_KEY } from '../decorators/rate-limit.decorator';
+import { RateLimitGroup } from '../usage.constants';
+import { UsageService } from '../usage.service';
+
+// Counts every authenticated request against the caller's per-minute limit for the route's group.
+// Public routes have no caller yet and are not limited here.
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private usageService: UsageService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const { user } = context.switchToHttp().getRequest();
+    if (!user) {
+      return true;
+    }
+
+    const group =
+      this.reflector.getAllAndOverride<RateLimitGroup>(RATE_LIMIT_GROUP_KEY, [
+        context.getHandler(),
+        context.getClass(),
+      ]) ?? 'api';
+
+    await this.usageService.consumeRequest(user, group);
+    return true;
+  }
+}
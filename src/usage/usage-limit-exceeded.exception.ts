@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ThrottleKey, UsageLimitKey } from './usage.constants';
+
+// 429 for a request over one of the caller's limits; `retryAfter` (seconds) is set when waiting frees up capacity
+export class UsageLimitExceededException extends HttpException {
+  constructor(
+    readonly limit: UsageLimitKey | ThrottleKey,
+    message: string,
+    readonly retryAfter?: number,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        error: 'Too Many Requests',
+        message,
+        limit,
+        ...(retryAfter !== undefined && { retry_after: retryAfter }),
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
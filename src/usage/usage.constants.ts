@@ -0,0 +1,29 @@
+// Route groups with their own per-minute request limit; routes without a group count as `api`
+export const RATE_LIMIT_GROUPS = ['api', 'upload', 'chat'] as const;
+export type RateLimitGroup = (typeof RATE_LIMIT_GROUPS)[number];
+
+export const RATE_LIMIT_WINDOW_MS = 60_000;
+
+// Document and storage quotas only free up when documents are deleted, so clients are asked to come back much later
+export const STORAGE_QUOTA_RETRY_AFTER_SECONDS = 60 * 60;
+
+export const USAGE_LIMIT_KEYS = [
+  'api_requests_per_minute',
+  'upload_requests_per_minute',
+  'chat_requests_per_minute',
+  'max_documents',
+  'max_storage_bytes',
+  'chat_messages_per_day',
+] as const;
+export type UsageLimitKey = (typeof USAGE_LIMIT_KEYS)[number];
+
+// Fixed throttles outside the per-user limits that are still refused with a UsageLimitExceededException
+export type ThrottleKey = 'verification_emails_per_minute';
+
+export type UsageLimits = Record<UsageLimitKey, number>;
+
+export const REQUESTS_PER_MINUTE_LIMITS: Record<RateLimitGroup, UsageLimitKey> = {
+  api: 'api_requests_per_minute',
+  upload: 'upload_requests_per_minute',
+  chat: 'chat_requests_per_minute',
+};
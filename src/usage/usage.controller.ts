@@ -0,0 +1,14 @@
+import { Controller, Get } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@Controller('me')
+export class UsageController {
+  constructor(private readonly usageService: UsageService) {}
+
+  // Current consumption against the caller's quotas and per-minute limits
+  @Get('usage')
+  async getUsage(@CurrentUser('id') userId: string) {
+    return this.usageService.getUsage(userId);
+  }
+}
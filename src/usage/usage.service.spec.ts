@@ -0,0 +1,166 @@
+import { Test } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { Role } from '@prisma/client';
+import { UsageService } from './usage.service';
+import { UsageLimitExceededException } from './usage-limit-exceeded.exception';
+import { STORAGE_QUOTA_RETRY_AFTER_SECONDS } from './usage.constants';
+import { PrismaService } from '../database/prisma.service';
+import { createUsagePrisma, UsagePrisma } from '../../test/utils/in-memory-usage';
+
+const USER_LIMITS = {
+  apiRequestsPerMinute: 5,
+  uploadRequestsPerMinute: 2,
+  chatRequestsPerMinute: 3,
+  maxDocuments: 2,
+  maxStorageBytes: 1000,
+  chatMessagesPerDay: 2,
+};
+
+describe('UsageService', () => {
+  let prisma: UsagePrisma;
+  let usage: UsageService;
+
+  const user = { id: 'user-1', role: Role.USER };
+
+  // The 429 a call fails with
+  const refusal = async (call: Promise<unknown>) => {
+    const error = await call.then(
+      () => null,
+      (thrown: unknown) => thrown,
+    );
+    expect(error).toBeInstanceOf(UsageLimitExceededException);
+    return error as UsageLimitExceededException;
+  };
+
+  const consume = async (count: number, group: 'api' | 'upload' | 'chat' = 'upload') => {
+    for (let i = 0; i < count; i++) {
+      await usage.consumeRequest(user, group);
+    }
+  };
+
+  const store = async (sizes: number[]) => {
+    await prisma.document.create({ data: { user_id: user.id, version_sizes: sizes } });
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    prisma = createUsagePrisma();
+    await prisma.user.create({ data: { id: user.id } });
+    await prisma.user.create({ data: { id: 'admin-1', role: Role.ADMIN } });
+
+    const module = await Test.createTestingModule({
+      providers: [
+        UsageService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: ConfigService, useValue: { get: (key: string) => (key === 'limits.USER' ? USER_LIMITS : {}) } },
+      ],
+    }).compile();
+
+    usage = module.get(UsageService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('per-minute limits', () => {
+    it('refuses requests over the limit until the window ends', async () => {
+      await consume(2);
+      jest.advanceTimersByTime(20_000);
+
+      const error = await refusal(usage.consumeRequest(user, 'upload'));
+      expect(error.limit).toBe('upload_requests_per_minute');
+      expect(error.retryAfter).toBe(40);
+
+      jest.advanceTimersByTime(40_000);
+      await expect(usage.consumeRequest(user, 'upload')).resolves.toBeUndefined();
+    });
+
+    it('counts each route group on its own', async () => {
+      await consume(2, 'upload');
+
+      await expect(consume(3, 'chat')).resolves.toBeUndefined();
+      await refusal(usage.consumeRequest(user, 'upload'));
+    });
+  });
+
+  describe('daily chat quota', () => {
+    it('refuses messages over the quota until midnight UTC, without counting them', async () => {
+      await usage.reserveChatMessage(user.id);
+      await usage.reserveChatMessage(user.id);
+
+      const error = await refusal(usage.reserveChatMessage(user.id));
+      expect(error.limit).toBe('chat_messages_per_day');
+      expect(error.retryAfter).toBe(12 * 60 * 60);
+      expect(prisma.dailyUsage.rows).toEqual([expect.objectContaining({ chat_messages: 2 })]);
+
+      jest.advanceTimersByTime(12 * 60 * 60 * 1000);
+      await expect(usage.reserveChatMessage(user.id)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('storage quota', () => {
+    it('refuses a document over the document limit, asking to retry much later', async () => {
+      await store([100]);
+      await store([100]);
+
+      const error = await refusal(usage.assertStorageAvailable(user.id, 100));
+      expect(error.limit).toBe('max_documents');
+      expect(error.retryAfter).toBe(STORAGE_QUOTA_RETRY_AFTER_SECONDS);
+
+      // A new version adds no document
+      await expect(usage.assertStorageAvailable(user.id, 100, 0)).resolves.toBeUndefined();
+    });
+
+    it('counts every version against the storage limit', async () => {
+      await store([300, 400]);
+
+      await expect(usage.assertStorageAvailable(user.id, 300)).resolves.toBeUndefined();
+      const error = await refusal(usage.assertStorageAvailable(user.id, 301));
+      expect(error.limit).toBe('max_storage_bytes');
+      expect(error.retryAfter).toBe(STORAGE_QUOTA_RETRY_AFTER_SECONDS);
+    });
+
+    it('lets only one of two concurrent uploads take the remaining space', async () => {
+      const upload = () => usage.withinStorageQuota(user.id, 600, 1, () => store([600]));
+
+      const results = await Promise.allSettled([upload(), upload()]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect(prisma.document.rows).toHaveLength(1);
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('admin overrides', () => {
+    it('replaces role defaults right away, and null restores them', async () => {
+      await consume(2);
+      await refusal(usage.consumeRequest(user, 'upload'));
+
+      const updated = await usage.updateUserLimits('admin-1', user.id, { upload_requests_per_minute: 3 });
+      expect(updated.limits.upload_requests_per_minute).toBe(3);
+      expect(updated.overrides).toEqual({
+        api_requests_per_minute: null,
+        upload_requests_per_minute: 3,
+        chat_requests_per_minute: null,
+        max_documents: null,
+        max_storage_bytes: null,
+        chat_messages_per_day: null,
+      });
+      expect(updated.updated_by).toBe('admin-1');
+      await expect(usage.consumeRequest(user, 'upload')).resolves.toBeUndefined();
+
+      const reset = await usage.updateUserLimits('admin-1', user.id, { upload_requests_per_minute: null });
+      expect(reset.limits.upload_requests_per_minute).toBe(USER_LIMITS.uploadRequestsPerMinute);
+      expect(reset.overrides.upload_requests_per_minute).toBeNull();
+    });
+
+    it('reports large storage overrides as numbers', async () => {
+      await usage.updateUserLimits('admin-1', user.id, { max_storage_bytes: 50 * 2 ** 30 });
+
+      const limits = await usage.getUserLimits(user.id);
+      expect(limits.overrides.max_storage_bytes).toBe(50 * 2 ** 30);
+      expect(limits.limits.max_storage_bytes).toBe(50 * 2 ** 30);
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Role, UsageLimitOverride } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { UsageLimitExceededException } from './usage-limit-exceeded.exception';
+import {
+  RATE_LIMIT_WINDOW_MS,
+  RateLimitGroup,
+  REQUESTS_PER_MINUTE_LIMITS,
+  STORAGE_QUOTA_RETRY_AFTER_SECONDS,
+  USAGE_LIMIT_KEYS,
+  UsageLimitKey,
+  UsageLimits,
+} from './usage.constants';
+import {
+  UpdateUsageLimitsDto,
+  UsageLimitOverridesDto,
+  UsageMeterDto,
+  UsageResponseDto,
+  UserLimitsResponseDto,
+} from './dto/usage.dto';
+
+// Every request needs the caller's overrides, so they are cached briefly; admin changes clear the entry
+const OVERRIDE_CACHE_TTL_MS = 60_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Config keys of the role defaults under `limits.<role>`
+const ROLE_LIMIT_CONFIG: Record<UsageLimitKey, string> = {
+  api_requests_per_minute: 'apiRequestsPerMinute',
+  upload_requests_per_minute: 'uploadRequestsPerMinute',
+  chat_requests_per_minute: 'chatRequestsPerMinute',
+  max_documents: 'maxDocuments',
+  max_storage_bytes: 'maxStorageBytes',
+  chat_messages_per_day: 'chatMessagesPerDay',
+};
+
+interface RequestWindow {
+  startedAt: number;
+  count: number;
+}
+
+// The caller as loaded by the JWT strategy
+interface UsageSubject {
+  id: string;
+  role: Role;
+}
+
+@Injectable()
+export class UsageService {
+  // Request counters live in memory, so each API instance enforces the per-minute limits on its own
+  private readonly windows = new Map<string, RequestWindow>();
+  private readonly overrides = new Map<string, { override: UsageLimitOverride | null; expiresAt: number }>();
+  private sweptAt = Date.now();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // Count a request in the caller's current one-minute window for the route group
+  async consumeRequest(user: UsageSubject, group: RateLimitGroup): Promise<void> {
+    const key = REQUESTS_PER_MINUTE_LIMITS[group];
+    const limit = this.resolveLimits(user.role, await this.cachedOverride(user.id))[key];
+
+    const now = Date.now();
+    this.sweep(now);
+
+    const windowKey = `${user.id}:${group}`;
+    let window = this.windows.get(windowKey);
+    if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(windowKey, window);
+    }
+
+    if (window.count >= limit) {
+      throw new UsageLimitExceededException(
+        key,
+        `Too many ${group} requests, the limit is ${limit} per minute`,
+        this.secondsUntil(window.startedAt + RATE_LIMIT_WINDOW_MS, now),
+      );
+    }
+    window.count++;
+  }
+
+  // Count a chat message against today's quota (UTC), refusing it once the quota is used up
+  async reserveChatMessage(userId: string): Promise<void> {
+    const { limits } = await this.loadLimits(userId);
+    const day = this.startOfDay(new Date());
+    const where = { user_id_day: { user_id: userId, day } };
+
+    const usage = await this.prisma.dailyUsage.upsert({
+      where,
+      create: { user_id: userId, day, chat_messages: 1 },
+      update: { chat_messages: { increment: 1 } },
+    });
+
+    if (usage.chat_messages > limits.chat_messages_per_day) {
+      // Give back the message that didn't fit
+      await this.prisma.dailyUsage.update({ where, data: { chat_messages: { decrement: 1 } } });
+      throw new UsageLimitExceededException(
+        'chat_messages_per_day',
+        `Daily limit of ${limits.chat_messages_per_day} chat messages reached`,
+        this.secondsUntil(day.getTime() + DAY_MS),
+      );
+    }
+  }
+
+  // Refuse an upload that would take the owner over their document or storage quota. Pass `client` to read the usage
+  // inside a transaction, as withinStorageQuota does.
+  async assertStorageAvailable(
+    userId: string,
+    bytes: number,
+    newDocuments = 1,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const { limits } = await this.loadLimits(userId);
+    const { documents, storedBytes } = await this.storedUsage(userId, client);
+
+    if (newDocuments > 0 && documents + newDocuments > limits.max_documents) {
+      throw new UsageLimitExceededException(
+        'max_documents',
+        `Document limit of ${limits.max_documents} reached`,
+        STORAGE_QUOTA_RETRY_AFTER_SECONDS,
+      );
+    }
+
+    if (storedBytes + bytes > limits.max_storage_bytes) {
+      throw new UsageLimitExceededException(
+        'max_storage_bytes',
+        `Upload would exceed the storage limit of ${limits.max_storage_bytes} bytes`,
+        STORAGE_QUOTA_RETRY_AFTER_SECONDS,
+      );
+    }
+  }
+
+  // Check the quota again and record the upload with `write` in one transaction, holding a lock on the owner's
+  // storage. Concurrent uploads queue on the lock, so each one sees the ones recorded before it.
+  async withinStorageQuota<T>(
+    userId: string,
+    bytes: number,
+    newDocuments: number,
+    write: (tx: Prisma.TransactionClient) => Promise<T>,
+  ): Promise<T> {
+    return this.prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`storage:${userId}`}))`;
+      await this.assertStorageAvailable(userId, bytes, newDocuments, tx);
+      return write(tx);
+    });
+  }
+
+  // Current consumption against each of the caller's limits
+  async getUsage(userId: string): Promise<UsageResponseDto> {
+    const { role, limits } = await this.loadLimits(userId);
+    const now = Date.now();
+    const today = this.startOfDay(new Date(now));
+
+    const [{ documents, storedBytes }, daily] = await Promise.all([
+      this.storedUsage(userId),
+      this.prisma.dailyUsage.findUnique({ where: { user_id_day: { user_id: userId, day: today } } }),
+    ]);
+
+    const requests = (group: RateLimitGroup) => {
+      const window = this.windows.get(`${userId}:${group}`);
+      const active = window && now - window.startedAt < RATE_LIMIT_WINDOW_MS ? window : null;
+      return this.meter(
+        active?.count ?? 0,
+        limits[REQUESTS_PER_MINUTE_LIMITS[group]],
+        active ? new Date(active.startedAt + RATE_LIMIT_WINDOW_MS) : null,
+      );
+    };
+
+    return {
+      role,
+      documents: this.meter(documents, limits.max_documents),
+      storage_bytes: this.meter(storedBytes, limits.max_storage_bytes),
+      chat_messages_today: this.meter(
+        daily?.chat_messages ?? 0,
+        limits.chat_messages_per_day,
+        new Date(today.getTime() + DAY_MS),
+      ),
+      requests_per_minute: { api: requests('api'), upload: requests('upload'), chat: requests('chat') },
+    };
+  }
+
+  async getUserLimits(userId: string): Promise<UserLimitsResponseDto> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true, usage_limits: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const override = user.usage_limits;
+    return {
+      user_id: user.id,
+      role: user.role,
+      limits: this.resolveLimits(user.role, override),
+      overrides: this.toOverrides(override),
+      updated_by: override?.updated_by ?? null,
+      updated_at: override?.updated_at ?? null,
+    };
+  }
+
+  async updateUserLimits(adminId: string, userId: string, dto: UpdateUsageLimitsDto): Promise<UserLimitsResponseDto> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const data = { ...dto, updated_by: adminId };
+    await this.prisma.usageLimitOverride.upsert({
+      where: { user_id: userId },
+      create: { ...data, user_id: userId },
+      update: data,
+    });
+    this.overrides.delete(userId);
+
+    return this.getUserLimits(userId);
+  }
+
+  private async loadLimits(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, usage_limits: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return { role: user.role, limits: this.resolveLimits(user.role, user.usage_limits) };
+  }
+
+  // Admin overrides first, then the defaults configured for the role
+  private resolveLimits(role: Role, override: UsageLimitOverride | null): UsageLimits {
+    const defaults = this.configService.get<Record<string, number>>(`limits.${role}`) ?? {};
+    return Object.fromEntries(
+      USAGE_LIMIT_KEYS.map((key) => [key, Number(override?.[key] ?? defaults[ROLE_LIMIT_CONFIG[key]])]),
+    ) as UsageLimits;
+  }
+
+  // Only the limits an admin has set; the rest are null
+  private toOverrides(override: UsageLimitOverride | null): UsageLimitOverridesDto {
+    const value = (limit: bigint | number | null | undefined) => (limit == null ? null : Number(limit));
+    return {
+      api_requests_per_minute: value(override?.api_requests_per_minute),
+      upload_requests_per_minute: value(override?.upload_requests_per_minute),
+      chat_requests_per_minute: value(override?.chat_requests_per_minute),
+      max_documents: value(override?.max_documents),
+      max_storage_bytes: value(override?.max_storage_bytes),
+      chat_messages_per_day: value(override?.chat_messages_per_day),
+    };
+  }
+
+  private async cachedOverride(userId: string) {
+    const cached = this.overrides.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.override;
+    }
+
+    const override = await this.prisma.usageLimitOverride.findUnique({ where: { user_id: userId } });
+    this.overrides.set(userId, { override, expiresAt: Date.now() + OVERRIDE_CACHE_TTL_MS });
+    return override;
+  }
+
+  // Documents the user uploaded, and the bytes stored for all of their versions
+  private async storedUsage(userId: string, client: Prisma.TransactionClient = this.prisma) {
+    const [documents, stored] = await Promise.all([
+      client.document.count({ where: { user_id: userId } }),
+      client.documentVersion.aggregate({
+        where: { document: { user_id: userId } },
+        _sum: { file_size: true },
+      }),
+    ]);
+
+    return { documents, storedBytes: stored._sum.file_size ?? 0 };
+  }
+
+  // Drop finished windows and expired cache entries about once a minute, so memory follows active users only
+  private sweep(now: number) {
+    if (now - this.sweptAt < RATE_LIMIT_WINDOW_MS) {
+      return;
+    }
+    this.sweptAt = now;
+
+    for (const [key, window] of this.windows) {
+      if (now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+        this.windows.delete(key);
+      }
+    }
+    for (const [key, entry] of this.overrides) {
+      if (entry.expiresAt <= now) {
+        this.overrides.delete(key);
+      }
+    }
+  }
+
+  private meter(used: number, limit: number, resetsAt: Date | null = null): UsageMeterDto {
+    return { used, limit, remaining: Math.max(0, limit - used), resets_at: resetsAt };
+  }
+
+  private secondsUntil(at: number, now = Date.now()) {
+    return Math.max(1, Math.ceil((at - now) / 1000));
+  }
+
+  private startOfDay(date: Date) {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+}
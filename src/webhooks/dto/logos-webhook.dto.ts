@@ -0,0 +1,37 @@
+import { IsEnum, IsISO8601, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { DocumentStatus } from '@prisma/client';
+
+export class LogosWebhookDto {
+  @IsNotEmpty()
+  @IsString()
+  event_id: string;
+
+  @IsNotEmpty()
+  @IsString()
+  logos_id: string;
+
+  // Logos reports lowercase statuses
+  @Transform(({ value }) => (typeof value === 'string' ? value.toUpperCase() : value))
+  @IsEnum(DocumentStatus)
+  status: DocumentStatus;
+
+  @IsOptional()
+  @IsString()
+  summary?: string | null;
+
+  @IsOptional()
+  @IsString()
+  classification?: string | null;
+
+  @IsOptional()
+  @IsString()
+  error_message?: string | null;
+
+  @IsISO8601()
+  occurred_at: string;
+}
+
+export class LogosWebhookResponseDto {
+  status: 'applied' | 'stale' | 'duplicate';
+}
@@ -0,0 +1,43 @@
+import { CanActivate, ExecutionContext, Injectable, UnauthorizedException, RawBodyRequest } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const LOGOS_SIGNATURE_HEADER = 'x-logos-signature';
+export const LOGOS_TIMESTAMP_HEADER = 'x-logos-timestamp';
+
+// Verifies `X-Logos-Signature: sha256=<hex>` computed as HMAC-SHA256(secret, `${timestamp}.${rawBody}`)
+@Injectable()
+export class LogosSignatureGuard implements CanActivate {
+  constructor(private configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+    const signature = request.get(LOGOS_SIGNATURE_HEADER);
+    const timestamp = request.get(LOGOS_TIMESTAMP_HEADER);
+
+    if (!signature || !timestamp || !request.rawBody) {
+      throw new UnauthorizedException('Missing webhook signature');
+    }
+
+    const toleranceSeconds = this.configService.get<number>('webhooks.toleranceSeconds') ?? 300;
+    const sentAt = Number(timestamp);
+    if (!Number.isInteger(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > toleranceSeconds) {
+      throw new UnauthorizedException('Webhook timestamp outside the allowed window');
+    }
+
+    const expected = createHmac('sha256', this.configService.get<string>('webhooks.logosSecret') ?? '')
+      .update(`${timestamp}.`)
+      .update(request.rawBody)
+      .digest('hex');
+
+    const provided = Buffer.from(signature.replace(/^sha256=/, ''), 'utf8');
+    const expectedBuffer = Buffer.from(expected, 'utf8');
+
+    if (provided.length !== expectedBuffer.length || !timingSafeEqual(provided, expectedBuffer)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,21 @@
+import { Controller, Post, Body, Headers, HttpCode, HttpStatus, UseGuards } from '@nestjs/common';
+import { WebhooksService } from './webhooks.service';
+import { LogosWebhookDto, LogosWebhookResponseDto } from './dto/logos-webhook.dto';
+import { LogosSignatureGuard, LOGOS_SIGNATURE_HEADER } from './guards/logos-signature.guard';
+import { Public } from '../auth/decorators/public.decorator';
+
+@Controller('webhooks')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Public()
+  @UseGuards(LogosSignatureGuard)
+  @Post('logos')
+  @HttpCode(HttpStatus.OK)
+  async handleLogosEvent(
+    @Headers(LOGOS_SIGNATURE_HEADER) signature: string,
+    @Body() event: LogosWebhookDto,
+  ): Promise<LogosWebhookResponseDto> {
+    return this.webhooksService.handleLogosEvent(event, signature);
+  }
+}
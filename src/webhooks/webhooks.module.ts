@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { LogosSignatureGuard } from './guards/logos-signature.guard';
+import { DocumentsModule } from '../documents/documents.module';
+
+@Module({
+  imports: [DocumentsModule],
+  controllers: [WebhooksController],
+  providers: [WebhooksService, LogosSignatureGuard],
+})
+export class WebhooksModule {}
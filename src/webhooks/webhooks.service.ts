@@ -0,0 +1,94 @@
+import { Injectable, Logger, ServiceUnavailableException, UnauthorizedException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../database/prisma.service';
+import { DocumentsService } from '../documents/documents.service';
+import { LogosWebhookDto, LogosWebhookResponseDto } from './dto/logos-webhook.dto';
+
+// Event ids are remembered this long for deduplication; signatures expire much sooner via the timestamp window
+const EVENT_RETENTION_DAYS = 7;
+
+@Injectable()
+export class WebhooksService {
+  private readonly logger = new Logger(WebhooksService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly documentsService: DocumentsService,
+  ) {}
+
+  async handleLogosEvent(event: LogosWebhookDto, signature: string): Promise<LogosWebhookResponseDto> {
+    // The exact same signed request seen twice is a replay, not a redelivery
+    const replayed = await this.prisma.logosWebhookEvent.findUnique({
+      where: { signature },
+      select: { id: true },
+    });
+
+    if (replayed) {
+      throw new UnauthorizedException('Replayed webhook request');
+    }
+
+    const duplicate = await this.prisma.logosWebhookEvent.findUnique({
+      where: { event_id: event.event_id },
+      select: { id: true },
+    });
+
+    if (duplicate) {
+      return { status: 'duplicate' };
+    }
+
+    const outcome = await this.applyEvent(event);
+
+    // Not recorded, so a retry after the document's upload finishes is applied rather than taken as a duplicate
+    if (outcome === 'unknown_document') {
+      this.logger.warn(`Received Logos event ${event.event_id} for unknown document ${event.logos_id}`);
+      throw new ServiceUnavailableException('Unknown document, retry later');
+    }
+
+    try {
+      await this.prisma.logosWebhookEvent.create({
+        data: {
+          event_id: event.event_id,
+          signature,
+          logos_id: event.logos_id,
+          status: event.status,
+          occurred_at: new Date(event.occurred_at),
+          outcome,
+        },
+      });
+    } catch (error) {
+      // A concurrent delivery of the same event won the insert; the update above was a no-op for it
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return { status: 'duplicate' };
+      }
+      throw error;
+    }
+
+    return { status: outcome };
+  }
+
+  private async applyEvent(event: LogosWebhookDto) {
+    return this.documentsService.applyProcessingEvent(
+      event.logos_id,
+      {
+        status: event.status,
+        summary: event.summary,
+        classification: event.classification,
+        error_message: event.error_message,
+      },
+      new Date(event.occurred_at),
+    );
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async pruneEvents() {
+    const cutoff = new Date(Date.now() - EVENT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const { count } = await this.prisma.logosWebhookEvent.deleteMany({
+      where: { received_at: { lt: cutoff } },
+    });
+
+    if (count) {
+      this.logger.log(`Pruned ${count} Logos webhook events`);
+    }
+  }
+}
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { Role } from '@prisma/client';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AdminModule } from './../src/admin/admin.module';
+import { PrismaModule } from './../src/database/prisma.module';
+import { PrismaService } from './../src/database/prisma.service';
+import { JwtStrategy } from './../src/auth/strategies/jwt.strategy';
+import { JwtAuthGuard } from './../src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from './../src/auth/guards/roles.guard';
+import { ScopesGuard } from './../src/auth/guards/scopes.guard';
+import { PersonalAccessTokenStrategy } from './../src/auth/strategies/personal-access-token.strategy';
+import { hashAccessToken } from './../src/auth/personal-access-tokens.service';
+
+const ACCESS_SECRET = 'test-access-secret';
+
+// A personal access token of the admin, with every scope
+const ADMIN_PAT = 'atlas_pat_admin-token';
+const accessTokens: Record<string, { id: string; scopes: string[]; expires_at: Date | null; last_used_at: Date }> = {
+  [hashAccessToken(ADMIN_PAT)]: {
+    id: 'token-id',
+    scopes: ['documents:read', 'documents:write', 'chat'],
+    expires_at: null,
+    last_used_at: new Date(),
+  },
+};
+
+interface TestUser {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
+  disabled_at: Date | null;
+}
+
+const users: Record<string, TestUser> = {
+  'user-id': { id: 'user-id', email: 'user@example.com', name: 'User', role: Role.USER, disabled_at: null },
+  'admin-id': { id: 'admin-id', email: 'admin@example.com', name: 'Admin', role: Role.ADMIN, disabled_at: null },
+  'disabled-id': {
+    id: 'disabled-id',
+    email: 'disabled@example.com',
+    name: 'Disabled',
+    role: Role.ADMIN,
+    disabled_at: new Date(),
+  },
+};
+
+// Only what the guards and the successful admin call touch; USER requests must never reach the service
+const prismaMock = {
+  user: {
+    findUnique: jest.fn(({ where }: { where: { id: string } }) => users[where.id] ?? null),
+    findMany: jest.fn().mockResolvedValue([]),
+    count: jest.fn().mockResolvedValue(0),
+    update: jest.fn(),
+  },
+  refreshToken: { deleteMany: jest.fn() },
+  personalAccessToken: {
+    findUnique: jest.fn(({ where }: { where: { token_hash: string } }) => {
+      const token = accessTokens[where.token_hash];
+      return token ? { ...token, user: users['admin-id'] } : null;
+    }),
+    update: jest.fn(),
+  },
+  document: { findMany: jest.fn(), findUnique: jest.fn(), count: jest.fn() },
+  $transaction: jest.fn(),
+};
+
+describe('AdminController (e2e)', () => {
+  let app: INestApplication<App>;
+  let tokens: Record<string, string>;
+
+  const adminRoutes: { method: 'get' | 'post' | 'put' | 'patch'; path: string; body?: object }[] = [
+    { method: 'get', path: '/admin/users' },
+    { method: 'get', path: '/admin/users/admin-id' },
+    { method: 'patch', path: '/admin/users/admin-id/role', body: { role: Role.USER } },
+    { method: 'post', path: '/admin/users/admin-id/disable' },
+    { method: 'post', path: '/admin/users/admin-id/enable' },
+    { method: 'post', path: '/admin/users/admin-id/logout' },
+    { method: 'get', path: '/admin/users/admin-id/limits' },
+    { method: 'put', path: '/admin/users/admin-id/limits', body: { max_documents: 10 } },
+    { method: 'get', path: '/admin/users/admin-id/documents' },
+    { method: 'get', path: '/admin/documents/some-document' },
+  ];
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [() => ({ jwt: { accessTokenSecret: ACCESS_SECRET }, logos: { baseUrl: 'http://logos.test' } })],
+        }),
+        PrismaModule,
+        PassportModule,
+        JwtModule.register({}),
+        AdminModule,
+      ],
+      providers: [
+        JwtStrategy,
+        PersonalAccessTokenStrategy,
+        { provide: APP_GUARD, useClass: JwtAuthGuard },
+        { provide: APP_GUARD, useClass: ScopesGuard },
+        { provide: APP_GUARD, useClass: RolesGuard },
+      ],
+    })
+      .overrideProvider(PrismaService)
+      .useValue(prismaMock)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    await app.init();
+
+    const jwtService = moduleFixture.get(JwtService);
+    const sign = (user: TestUser) =>
+      jwtService.signAsync({ sub: user.id, email: user.email, role: user.role }, { secret: ACCESS_SECRET });
+
+    tokens = {
+      'user-id': await sign(users['user-id']),
+      'admin-id': await sign(users['admin-id']),
+      'disabled-id': await sign(users['disabled-id']),
+    };
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it.each(adminRoutes)('rejects USER callers on $method $path with 403', async ({ method, path, body }) => {
+    await request(app.getHttpServer())
+      [method](path)
+      .set('Authorization', `Bearer ${tokens['user-id']}`)
+      .send(body)
+      .expect(403);
+
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+    expect(prismaMock.refreshToken.deleteMany).not.toHaveBeenCalled();
+    expect(prismaMock.document.findMany).not.toHaveBeenCalled();
+  });
+
+  it.each(adminRoutes)('rejects anonymous callers on $method $path with 401', async ({ method, path, body }) => {
+    await request(app.getHttpServer())[method](path).send(body).expect(401);
+  });
+
+  it.each(adminRoutes)('rejects personal access tokens on $method $path with 403', async ({ method, path, body }) => {
+    await request(app.getHttpServer())[method](path).set('Authorization', `Bearer ${ADMIN_PAT}`).send(body).expect(403);
+
+    expect(prismaMock.user.update).not.toHaveBeenCalled();
+    expect(prismaMock.document.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown personal access tokens', async () => {
+    await request(app.getHttpServer()).get('/admin/users').set('Authorization', 'Bearer atlas_pat_unknown').expect(401);
+  });
+
+  it('only accepts personal access tokens in the Authorization header', async () => {
+    await request(app.getHttpServer()).get('/admin/users').query({ access_token: ADMIN_PAT }).expect(401);
+
+    expect(prismaMock.personalAccessToken.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects disabled accounts even with a valid admin token', async () => {
+    await request(app.getHttpServer())
+      .get('/admin/users')
+      .set('Authorization', `Bearer ${tokens['disabled-id']}`)
+      .expect(401);
+  });
+
+  it('lets ADMIN callers list users', async () => {
+    const response = await request(app.getHttpServer())
+      .get('/admin/users')
+      .set('Authorization', `Bearer ${tokens['admin-id']}`)
+      .expect(200);
+
+    expect(response.body).toEqual({ items: [], total: 0, page: 1, limit: 20 });
+  });
+});
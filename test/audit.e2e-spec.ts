@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, UnauthorizedException, ValidationPipe } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { AuditAction, AuditOutcome, Role } from '@prisma/client';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AuthController } from './../src/auth/auth.controller';
+import { AuthService } from './../src/auth/auth.service';
+import { AdminController } from './../src/admin/admin.controller';
+import { AdminService } from './../src/admin/admin.service';
+import { UsageService } from './../src/usage/usage.service';
+import { PrismaService } from './../src/database/prisma.service';
+import { JwtStrategy } from './../src/auth/strategies/jwt.strategy';
+import { JwtRefreshStrategy } from './../src/auth/strategies/jwt-refresh.strategy';
+import { JwtAuthGuard } from './../src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from './../src/auth/guards/roles.guard';
+import { AuditGuard } from './../src/audit/audit.guard';
+import { AuditInterceptor } from './../src/audit/audit.interceptor';
+import { AuditEntry, AuditService } from './../src/audit/audit.service';
+
+const ACCESS_SECRET = 'test-access-secret';
+const REFRESH_SECRET = 'test-refresh-secret';
+
+const users = {
+  'user-id': { id: 'user-id', email: 'user@example.com', role: Role.USER, disabled_at: null },
+  'admin-id': { id: 'admin-id', email: 'admin@example.com', role: Role.ADMIN, disabled_at: null },
+};
+
+const prismaMock = {
+  user: { findUnique: jest.fn(({ where }: { where: { id: keyof typeof users } }) => users[where.id] ?? null) },
+  refreshToken: { findUnique: jest.fn().mockResolvedValue(null) },
+};
+
+const authServiceMock = {
+  login: jest.fn(),
+};
+
+const adminServiceMock = {
+  updateRole: jest.fn(),
+};
+
+const auditServiceMock = {
+  record: jest.fn<Promise<void>, [AuditEntry]>().mockResolvedValue(undefined),
+};
+
+describe('Audit log (e2e)', () => {
+  let app: INestApplication<App>;
+  let tokens: Record<keyof typeof users, string>;
+
+  // Entries are written after the response has gone out, so wait for them
+  const recorded = async (): Promise<AuditEntry> => {
+    for (let i = 0; i < 50 && !auditServiceMock.record.mock.calls.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    expect(auditServiceMock.record).toHaveBeenCalledTimes(1);
+    return auditServiceMock.record.mock.calls[0][0];
+  };
+
+  beforeAll(async () => {
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [() => ({ jwt: { accessTokenSecret: ACCESS_SECRET, refreshTokenSecret: REFRESH_SECRET } })],
+        }),
+        PassportModule,
+        JwtModule.register({}),
+      ],
+      controllers: [AuthController, AdminController],
+      providers: [
+        JwtStrategy,
+        JwtRefreshStrategy,
+        { provide: PrismaService, useValue: prismaMock },
+        { provide: AuthService, useValue: authServiceMock },
+        { provide: AdminService, useValue: adminServiceMock },
+        { provide: UsageService, useValue: {} },
+        { provide: AuditService, useValue: auditServiceMock },
+        { provide: APP_GUARD, useClass: AuditGuard },
+        { provide: APP_GUARD, useClass: JwtAuthGuard },
+        { provide: APP_GUARD, useClass: RolesGuard },
+        { provide: APP_INTERCEPTOR, useClass: AuditInterceptor },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    await app.init();
+
+    const jwtService = moduleFixture.get(JwtService);
+    const sign = (user: (typeof users)[keyof typeof users]) =>
+      jwtService.signAsync({ sub: user.id, email: user.email, role: user.role }, { secret: ACCESS_SECRET });
+
+    tokens = { 'user-id': await sign(users['user-id']), 'admin-id': await sign(users['admin-id']) };
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records a successful login with the status that was sent', async () => {
+    authServiceMock.login.mockResolvedValue({ access_token: 'a', refresh_token: 'r' });
+
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'password' })
+      .expect(200);
+
+    expect(await recorded()).toMatchObject({
+      action: AuditAction.LOGIN,
+      outcome: AuditOutcome.SUCCESS,
+      statusCode: 200,
+      actorEmail: 'user@example.com',
+    });
+  });
+
+  it('records a failed login with the error', async () => {
+    authServiceMock.login.mockRejectedValue(new UnauthorizedException('Invalid credentials'));
+
+    await request(app.getHttpServer())
+      .post('/auth/login')
+      .send({ email: 'user@example.com', password: 'wrong-password' })
+      .expect(401);
+
+    expect(await recorded()).toMatchObject({
+      action: AuditAction.LOGIN,
+      outcome: AuditOutcome.FAILURE,
+      statusCode: 401,
+      metadata: { error: 'Invalid credentials' },
+    });
+  });
+
+  it('records a refresh rejected by its guard', async () => {
+    await request(app.getHttpServer())
+      .post('/auth/refresh')
+      .set('Authorization', 'Bearer not-a-refresh-token')
+      .expect(401);
+
+    expect(await recorded()).toMatchObject({
+      action: AuditAction.TOKEN_REFRESH,
+      outcome: AuditOutcome.FAILURE,
+      statusCode: 401,
+      actorId: null,
+    });
+  });
+
+  it('records a role change refused by the roles guard', async () => {
+    await request(app.getHttpServer())
+      .patch('/admin/users/admin-id/role')
+      .set('Authorization', `Bearer ${tokens['user-id']}`)
+      .send({ role: Role.USER })
+      .expect(403);
+
+    expect(adminServiceMock.updateRole).not.toHaveBeenCalled();
+    expect(await recorded()).toMatchObject({
+      action: AuditAction.ROLE_CHANGE,
+      outcome: AuditOutcome.FAILURE,
+      statusCode: 403,
+      actorId: 'user-id',
+      targetType: 'user',
+      targetId: 'admin-id',
+    });
+  });
+
+  it('records details taken from the result', async () => {
+    adminServiceMock.updateRole.mockResolvedValue({ id: 'user-id', role: Role.ADMIN });
+
+    await request(app.getHttpServer())
+      .patch('/admin/users/user-id/role')
+      .set('Authorization', `Bearer ${tokens['admin-id']}`)
+      .send({ role: Role.ADMIN })
+      .expect(200);
+
+    expect(await recorded()).toMatchObject({
+      action: AuditAction.ROLE_CHANGE,
+      outcome: AuditOutcome.SUCCESS,
+      statusCode: 200,
+      actorId: 'admin-id',
+      targetId: 'user-id',
+      metadata: { role: Role.ADMIN },
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { INestApplication } from '@nestjs/common';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DocumentsController } from './../src/documents/documents.controller';
+import { DocumentsService } from './../src/documents/documents.service';
+import { DocumentEventsService } from './../src/documents/document-events.service';
+import { DocumentUploadsService } from './../src/documents/document-uploads.service';
+import { DocumentBatchService } from './../src/documents/document-batch.service';
+import { MAX_UPLOAD_SIZE } from './../src/documents/documents.constants';
+import { AccessTokenPrisma, createAccessTokenApp, createAccessTokenPrisma } from './utils/access-tokens';
+
+describe('Batch uploads (e2e)', () => {
+  let prisma: AccessTokenPrisma;
+  let app: INestApplication<App>;
+  let documents: { uploadDocument: jest.Mock };
+
+  beforeEach(async () => {
+    prisma = createAccessTokenPrisma();
+    documents = {
+      uploadDocument: jest.fn(async () => ({ id: 'document-1', logos_id: 'logos-1', duplicate: false })),
+    };
+
+    app = await createAccessTokenApp(prisma, {
+      controllers: [DocumentsController],
+      providers: [
+        DocumentBatchService,
+        { provide: DocumentsService, useValue: documents },
+        { provide: DocumentEventsService, useValue: {} },
+        { provide: DocumentUploadsService, useValue: {} },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('rejects a file over the size limit and still uploads the rest of the batch', async () => {
+    const token = await prisma.issue(['documents:write']);
+
+    const { body } = await request(app.getHttpServer())
+      .post('/documents/upload/batch')
+      .set('Authorization', `Bearer ${token}`)
+      .attach('files', Buffer.alloc(MAX_UPLOAD_SIZE + 1, 'a'), { filename: 'huge.txt', contentType: 'text/plain' })
+      .attach('files', Buffer.from('meeting notes'), { filename: 'notes.txt', contentType: 'text/plain' })
+      .expect(201);
+
+    expect(body).toMatchObject({
+      created: 1,
+      rejected: 1,
+      results: [
+        { filename: 'huge.txt', status: 'rejected', reason: expect.stringContaining('File size') },
+        { filename: 'notes.txt', status: 'created', document_id: 'document-1' },
+      ],
+    });
+    expect(documents.uploadDocument).toHaveBeenCalledTimes(1);
+    expect(documents.uploadDocument).toHaveBeenCalledWith(
+      { userId: 'user-1', organizationId: null },
+      expect.objectContaining({ originalname: 'notes.txt', size: 13 }),
+      false,
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_FILTER, APP_GUARD } from '@nestjs/core';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { PassportModule } from '@nestjs/passport';
+import { Role } from '@prisma/client';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { UsageController } from './../src/usage/usage.controller';
+import { UsageService } from './../src/usage/usage.service';
+import { UsageLimitFilter } from './../src/usage/filters/usage-limit.filter';
+import { RateLimitGuard } from './../src/usage/guards/rate-limit.guard';
+import { AdminController } from './../src/admin/admin.controller';
+import { AdminService } from './../src/admin/admin.service';
+import { PrismaService } from './../src/database/prisma.service';
+import { JwtStrategy } from './../src/auth/strategies/jwt.strategy';
+import { JwtAuthGuard } from './../src/auth/guards/jwt-auth.guard';
+import { RolesGuard } from './../src/auth/guards/roles.guard';
+import { createUsagePrisma, UsagePrisma } from './utils/in-memory-usage';
+
+const ACCESS_SECRET = 'test-access-secret';
+
+const limits = (apiRequestsPerMinute: number) => ({
+  apiRequestsPerMinute,
+  uploadRequestsPerMinute: 10,
+  chatRequestsPerMinute: 10,
+  maxDocuments: 10,
+  maxStorageBytes: 1000,
+  chatMessagesPerDay: 5,
+});
+
+describe('Usage limits (e2e)', () => {
+  let app: INestApplication<App>;
+  let prisma: UsagePrisma;
+  let tokens: Record<'user' | 'admin', string>;
+
+  beforeEach(async () => {
+    prisma = createUsagePrisma();
+    const user = await prisma.user.create({ data: { id: 'user-id', role: Role.USER } });
+    const admin = await prisma.user.create({ data: { id: 'admin-id', role: Role.ADMIN } });
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({ jwt: { accessTokenSecret: ACCESS_SECRET }, limits: { USER: limits(3), ADMIN: limits(100) } }),
+          ],
+        }),
+        PassportModule,
+        JwtModule.register({}),
+      ],
+      controllers: [UsageController, AdminController],
+      providers: [
+        JwtStrategy,
+        UsageService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AdminService, useValue: {} },
+        { provide: APP_GUARD, useClass: JwtAuthGuard },
+        { provide: APP_GUARD, useClass: RateLimitGuard },
+        { provide: APP_GUARD, useClass: RolesGuard },
+        { provide: APP_FILTER, useClass: UsageLimitFilter },
+      ],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true, transform: true }));
+    await app.init();
+
+    const jwtService = moduleFixture.get(JwtService);
+    const sign = ({ id, email, role }: { id: string; email: string; role: Role }) =>
+      jwtService.signAsync({ sub: id, email, role }, { secret: ACCESS_SECRET });
+
+    tokens = { user: await sign(user), admin: await sign(admin) };
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const usage = (token: string) =>
+    request(app.getHttpServer()).get('/me/usage').set('Authorization', `Bearer ${token}`);
+
+  it('sends Retry-After with the 429 once the per-minute limit is used up', async () => {
+    for (let i = 0; i < 3; i++) {
+      await usage(tokens.user).expect(200);
+    }
+
+    const response = await usage(tokens.user).expect(429);
+
+    expect(Number(response.headers['retry-after'])).toBeGreaterThan(0);
+    expect(Number(response.headers['retry-after'])).toBeLessThanOrEqual(60);
+    expect(response.body).toMatchObject({ limit: 'api_requests_per_minute', retry_after: expect.any(Number) });
+  });
+
+  it('reports current consumption against every limit', async () => {
+    await prisma.document.create({ data: { user_id: 'user-id', version_sizes: [200, 300] } });
+    await app.get(UsageService).reserveChatMessage('user-id');
+
+    const { body } = await usage(tokens.user).expect(200);
+
+    expect(body).toMatchObject({
+      role: Role.USER,
+      documents: { used: 1, limit: 10, remaining: 9, resets_at: null },
+      storage_bytes: { used: 500, limit: 1000, remaining: 500, resets_at: null },
+      chat_messages_today: { used: 1, limit: 5, remaining: 4, resets_at: expect.any(String) },
+      requests_per_minute: { api: { used: 1, limit: 3, remaining: 2 }, upload: { used: 0, resets_at: null } },
+    });
+  });
+
+  it('lets admins override a user limit, which applies right away', async () => {
+    const { body } = await request(app.getHttpServer())
+      .put('/admin/users/user-id/limits')
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({ api_requests_per_minute: 10, max_documents: null })
+      .expect(200);
+
+    expect(body).toMatchObject({
+      user_id: 'user-id',
+      limits: { api_requests_per_minute: 10, max_documents: 10 },
+      overrides: { api_requests_per_minute: 10, max_documents: null },
+      updated_by: 'admin-id',
+    });
+
+    const { body: current } = await usage(tokens.user).expect(200);
+    expect(current.requests_per_minute.api.limit).toBe(10);
+
+    await request(app.getHttpServer())
+      .get('/admin/users/user-id/limits')
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .expect(200)
+      .expect(({ body: stored }) => expect(stored.overrides.api_requests_per_minute).toBe(10));
+  });
+
+  it('rejects invalid overrides', async () => {
+    await request(app.getHttpServer())
+      .put('/admin/users/user-id/limits')
+      .set('Authorization', `Bearer ${tokens.admin}`)
+      .send({ api_requests_per_minute: 0 })
+      .expect(400);
+
+    expect(prisma.usageLimitOverride.rows).toHaveLength(0);
+  });
+});
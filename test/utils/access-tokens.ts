@@ -0,0 +1,93 @@
+import { INestApplication, ModuleMetadata, Provider } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { PassportModule } from '@nestjs/passport';
+import { Test } from '@nestjs/testing';
+import { Role } from '@prisma/client';
+import { App } from 'supertest/types';
+import { PrismaService } from '../../src/database/prisma.service';
+import { JwtAuthGuard } from '../../src/auth/guards/jwt-auth.guard';
+import { ScopesGuard } from '../../src/auth/guards/scopes.guard';
+import { JwtStrategy } from '../../src/auth/strategies/jwt.strategy';
+import { PersonalAccessTokenStrategy } from '../../src/auth/strategies/personal-access-token.strategy';
+import { hashAccessToken, PERSONAL_ACCESS_TOKEN_PREFIX } from '../../src/auth/personal-access-tokens.service';
+import { createTable, InMemoryTable } from './in-memory-prisma';
+
+// Personal access tokens of one user, for specs checking which routes a token's scopes open
+
+export interface StoredAccessToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  scopes: string[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+}
+
+export const TOKEN_OWNER = {
+  id: 'user-1',
+  email: 'user@example.com',
+  name: 'User',
+  role: Role.USER,
+  disabled_at: null,
+};
+
+export const createAccessTokenPrisma = () => {
+  const personalAccessToken: InMemoryTable<StoredAccessToken> = createTable<StoredAccessToken>({
+    create: (data) => ({
+      id: `token-${personalAccessToken.rows.length + 1}`,
+      user_id: TOKEN_OWNER.id,
+      token_hash: '',
+      scopes: [],
+      expires_at: null,
+      last_used_at: null,
+      ...data,
+    }),
+    relations: () => ({ user: TOKEN_OWNER }),
+  });
+
+  // Stores a token with `scopes` and returns what the client sends
+  const issue = async (scopes: string[], fields: Partial<StoredAccessToken> = {}) => {
+    const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${personalAccessToken.rows.length + 1}`;
+    await personalAccessToken.create({ data: { scopes, token_hash: hashAccessToken(token), ...fields } });
+    return token;
+  };
+
+  return {
+    personalAccessToken,
+    user: { findUnique: jest.fn(async () => TOKEN_OWNER) },
+    issue,
+  };
+};
+
+export type AccessTokenPrisma = ReturnType<typeof createAccessTokenPrisma>;
+
+// An app serving `controllers` behind the authentication and scope guards, with `providers` standing in for services
+export const createAccessTokenApp = async (
+  prisma: AccessTokenPrisma,
+  { controllers, providers = [] }: Pick<ModuleMetadata, 'controllers'> & { providers?: Provider[] },
+): Promise<INestApplication<App>> => {
+  const moduleFixture = await Test.createTestingModule({
+    imports: [
+      ConfigModule.forRoot({
+        isGlobal: true,
+        ignoreEnvFile: true,
+        load: [() => ({ jwt: { accessTokenSecret: 'test-access-secret' } })],
+      }),
+      PassportModule,
+    ],
+    controllers,
+    providers: [
+      ...providers,
+      JwtStrategy,
+      PersonalAccessTokenStrategy,
+      { provide: PrismaService, useValue: prisma },
+      { provide: APP_GUARD, useClass: JwtAuthGuard },
+      { provide: APP_GUARD, useClass: ScopesGuard },
+    ],
+  }).compile();
+
+  const app = moduleFixture.createNestApplication<INestApplication<App>>();
+  await app.init();
+  return app;
+};
@@ -0,0 +1,119 @@
+import { ChatMessageStatus } from '@prisma/client';
+import { createTable, createTransaction, InMemoryTable } from './in-memory-prisma';
+
+// In-memory chat sessions and messages for the chat specs, including the recursive branch queries that
+// ChatContextService runs through `$queryRaw`
+
+export interface StoredMessage {
+  id: string;
+  session_id: string;
+  parent_id: string | null;
+  role: string;
+  content: string;
+  status: ChatMessageStatus;
+  error: string | null;
+  chunk_ids: string[];
+  created_at: Date;
+}
+
+export interface StoredSession {
+  id: string;
+  user_id: string;
+  title: string | null;
+  summary: string | null;
+  summarized_message_id: string | null;
+  active_message_id: string | null;
+  updated_at: Date;
+}
+
+export const createChatPrisma = () => {
+  // Messages are created a second apart so ordering by created_at is stable
+  let clock = Date.UTC(2026, 0, 1);
+
+  const chatSession: InMemoryTable<StoredSession> = createTable<StoredSession>({
+    create: (data) => ({
+      id: 'session-1',
+      user_id: 'user-1',
+      title: null,
+      summary: null,
+      summarized_message_id: null,
+      active_message_id: null,
+      updated_at: new Date(),
+      ...data,
+    }),
+    // `include` filters aren't applied to the messages; specs read the branch from the stored rows instead
+    relations: (session) => {
+      const messages = chatMessage.rows
+        .filter((m) => m.session_id === session.id)
+        .map((m) => ({ ...m, citations: [], feedback: null }));
+      return {
+        documents: [
+          { document_id: 'document-1', version_id: null, document: { filename: 'contract.pdf' }, version: null },
+        ],
+        messages,
+        _count: { messages: messages.length },
+      };
+    },
+  });
+
+  const chatMessage: InMemoryTable<StoredMessage> = createTable<StoredMessage>({
+    create: (data) => ({
+      id: `message-${chatMessage.rows.length + 1}`,
+      session_id: 'session-1',
+      parent_id: null,
+      role: 'user',
+      content: '',
+      status: ChatMessageStatus.COMPLETE,
+      error: null,
+      chunk_ids: [],
+      created_at: new Date((clock += 1000)),
+      ...data,
+    }),
+    relations: (message) => ({
+      session: chatSession.rows.find((s) => s.id === message.session_id),
+      parent: chatMessage.rows.find((m) => m.id === message.parent_id) ?? null,
+      citations: [],
+    }),
+  });
+
+  const inSession = (id: string | null, sessionId: string) =>
+    chatMessage.rows.find((m) => m.id === id && m.session_id === sessionId);
+
+  // Walks the tree the way the recursive queries do, told apart by the name of their CTE
+  const $queryRaw = jest.fn(async (query: TemplateStringsArray, id: string, sessionId: string) => {
+    const start = inSession(id, sessionId);
+    if (!start) {
+      return [];
+    }
+
+    if (query.join('').includes('WITH RECURSIVE descent')) {
+      let leaf: StoredMessage = start;
+      const latestReply = (parentId: string) =>
+        chatMessage.rows.filter((m) => m.parent_id === parentId).sort((a, b) => +b.created_at - +a.created_at)[0];
+      for (let reply = latestReply(leaf.id); reply; reply = latestReply(leaf.id)) {
+        leaf = reply;
+      }
+      return [{ id: leaf.id }];
+    }
+
+    const path: Pick<StoredMessage, 'id' | 'parent_id'>[] = [];
+    let message: StoredMessage | undefined = start;
+    while (message) {
+      path.unshift({ id: message.id, parent_id: message.parent_id });
+      const parentId: string | null = message.parent_id;
+      message = chatMessage.rows.find((m) => m.id === parentId);
+    }
+    return path;
+  });
+
+  return {
+    sessions: chatSession.rows,
+    messages: chatMessage.rows,
+    chatSession,
+    chatMessage,
+    $queryRaw,
+    $transaction: createTransaction(() => ({ chatSession, chatMessage })),
+  };
+};
+
+export type ChatPrisma = ReturnType<typeof createChatPrisma>;
@@ -0,0 +1,204 @@
+// In-memory stand-ins for Prisma model delegates, shared by unit specs that exercise a service against stored state
+// rather than canned return values. Only the query shapes the services use are understood: field equality,
+// `in`/`not`/`gt`/`gte`/`lt`/`lte` filters, `OR` and compound unique keys, `increment`/`decrement` updates, a single
+// `orderBy` field and `take`. Nested relation writes are ignored; related rows are attached through `relations`.
+
+type Comparable = string | number | Date | boolean | null;
+
+type FieldFilter<V> =
+  | V
+  | { in?: V[]; not?: V | null; gt?: V; gte?: V; lt?: V; lte?: V; equals?: V }
+  | { increment?: number; decrement?: number };
+
+// Any other key is a compound unique key such as `user_id_day: { user_id, day }`
+export type Where<T> = { [K in keyof T]?: FieldFilter<T[K]> } & { OR?: Where<T>[] } & {
+  [compound: string]: unknown;
+};
+
+export interface FindArgs<T> {
+  where?: Where<T>;
+  orderBy?: { [K in keyof T]?: 'asc' | 'desc' };
+  take?: number;
+}
+
+const isOperator = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+const valueOf = (value: unknown) => (value instanceof Date ? value.getTime() : (value as Comparable));
+
+const matchesField = (actual: unknown, filter: unknown): boolean => {
+  if (!isOperator(filter)) {
+    return valueOf(actual) === valueOf(filter);
+  }
+
+  const a = valueOf(actual);
+  return Object.entries(filter).every(([operator, expected]) => {
+    const e = valueOf(expected);
+    switch (operator) {
+      case 'in':
+        return (expected as unknown[]).some((value) => valueOf(value) === a);
+      case 'not':
+        return a !== e;
+      case 'equals':
+        return a === e;
+      case 'gt':
+        return a !== null && e !== null && a > e;
+      case 'gte':
+        return a !== null && e !== null && a >= e;
+      case 'lt':
+        return a !== null && e !== null && a < e;
+      case 'lte':
+        return a !== null && e !== null && a <= e;
+      default:
+        throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  });
+};
+
+// Like Prisma, an undefined filter matches everything
+export const matches = <T>(row: T, where: Where<T> = {}): boolean =>
+  Object.entries(where).every(([field, filter]) => {
+    if (field === 'OR') {
+      return (filter as Where<T>[]).some((alternative) => matches(row, alternative));
+    }
+    if (!(field in (row as object)) && isOperator(filter)) {
+      return matches(row, filter as Where<T>);
+    }
+    return filter === undefined || matchesField(row[field as keyof T], filter);
+  });
+
+// Applies update data to a row in place: plain values are set, counters are incremented, relation writes skipped
+const applyUpdate = <T>(row: T, data: Partial<Record<keyof T, unknown>>) => {
+  for (const [field, value] of Object.entries(data)) {
+    const key = field as keyof T;
+    if (!isOperator(value)) {
+      row[key] = value as T[keyof T];
+    } else if ('increment' in value || 'decrement' in value) {
+      const delta = Number(value.increment ?? 0) - Number(value.decrement ?? 0);
+      row[key] = (Number(row[key]) + delta) as T[keyof T];
+    }
+  }
+  return row;
+};
+
+export interface InMemoryTableOptions<T, R> {
+  // Builds a stored row from create data, filling in ids and column defaults
+  create: (data: Partial<T>) => T;
+  // Related rows returned alongside a row, standing in for `include`
+  relations?: (row: T) => R;
+}
+
+export const createTable = <T extends object, R extends object = object>({
+  create,
+  relations,
+}: InMemoryTableOptions<T, R>) => {
+  const rows: T[] = [];
+  const withRelations = (row: T): T & R => ({ ...row, ...(relations?.(row) as R) });
+
+  const findMany = ({ where, orderBy, take }: FindArgs<T> = {}) => {
+    const found = rows.filter((row) => matches(row, where));
+    const [field, direction] = (Object.entries(orderBy ?? {})[0] ?? []) as [keyof T, 'asc' | 'desc'];
+    if (field) {
+      found.sort((a, b) => {
+        const [x, y] = [valueOf(a[field]) ?? '', valueOf(b[field]) ?? ''];
+        const order = x < y ? -1 : x > y ? 1 : 0;
+        return direction === 'desc' ? -order : order;
+      });
+    }
+    return found.slice(0, take ?? found.length);
+  };
+
+  const findOrThrow = (where: Where<T>) => {
+    const row = rows.find((candidate) => matches(candidate, where));
+    if (!row) {
+      throw new Error('No record found');
+    }
+    return row;
+  };
+
+  return {
+    rows,
+    findUnique: jest.fn(async ({ where }: { where: Where<T> }) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      return row ? withRelations(row) : null;
+    }),
+    findUniqueOrThrow: jest.fn(async ({ where }: { where: Where<T> }) => withRelations(findOrThrow(where))),
+    findFirst: jest.fn(async (args: FindArgs<T> = {}) => {
+      const [row] = findMany({ ...args, take: 1 });
+      return row ? withRelations(row) : null;
+    }),
+    findMany: jest.fn(async (args: FindArgs<T> = {}) => findMany(args).map(withRelations)),
+    count: jest.fn(async ({ where }: { where?: Where<T> } = {}) => findMany({ where }).length),
+    create: jest.fn(async ({ data }: { data: Partial<T> }) => {
+      const row = create(data);
+      rows.push(row);
+      return withRelations(row);
+    }),
+    update: jest.fn(async ({ where, data }: { where: Where<T>; data: Partial<Record<keyof T, unknown>> }) =>
+      withRelations(applyUpdate(findOrThrow(where), data)),
+    ),
+    updateMany: jest.fn(async ({ where, data }: { where: Where<T>; data: Partial<Record<keyof T, unknown>> }) => {
+      const found = findMany({ where });
+      found.forEach((row) => applyUpdate(row, data));
+      return { count: found.length };
+    }),
+    upsert: jest.fn(
+      async ({
+        where,
+        create: data,
+        update,
+      }: {
+        where: Where<T>;
+        create: Partial<T>;
+        update: Partial<Record<keyof T, unknown>>;
+      }) => {
+        const existing = rows.find((candidate) => matches(candidate, where));
+        if (existing) {
+          return withRelations(applyUpdate(existing, update));
+        }
+        const row = create(data);
+        rows.push(row);
+        return withRelations(row);
+      },
+    ),
+    delete: jest.fn(async ({ where }: { where: Where<T> }) => {
+      const row = findOrThrow(where);
+      rows.splice(rows.indexOf(row), 1);
+      return row;
+    }),
+    deleteMany: jest.fn(async ({ where }: { where?: Where<T> } = {}) => {
+      const found = findMany({ where });
+      rows.splice(0, rows.length, ...rows.filter((row) => !found.includes(row)));
+      return { count: found.length };
+    }),
+  };
+};
+
+export type InMemoryTable<T extends object, R extends object = object> = ReturnType<typeof createTable<T, R>>;
+
+// `$transaction` for both forms the services use: a batch of queries, or a callback run against the client itself.
+// A failing callback rolls back the tables it was given, keeping the row objects specs hold on to.
+export const createTransaction =
+  <C>(client: () => C) =>
+  async <T>(operations: Promise<T>[] | ((tx: C) => Promise<T>)) => {
+    if (typeof operations !== 'function') {
+      return Promise.all(operations);
+    }
+
+    const tx = client();
+    const tables = Object.values(tx as object).filter(
+      (table): table is { rows: object[] } => typeof table === 'object' && table !== null && 'rows' in table,
+    );
+    const snapshots = tables.map(({ rows }) => rows.map((row) => [row, { ...row }] as const));
+
+    try {
+      return await operations(tx);
+    } catch (error) {
+      tables.forEach(({ rows }, index) => {
+        const snapshot = snapshots[index];
+        snapshot.forEach(([row, values]) => Object.assign(row, values));
+        rows.splice(0, rows.length, ...snapshot.map(([row]) => row));
+      });
+      throw error;
+    }
+  };
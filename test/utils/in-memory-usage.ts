@@ -0,0 +1,103 @@
+import { Role } from '@prisma/client';
+import { createTable, InMemoryTable } from './in-memory-prisma';
+
+// In-memory users, limit overrides and stored documents for the usage specs
+
+export interface StoredUser {
+  id: string;
+  email: string;
+  role: Role;
+  disabled_at: Date | null;
+}
+
+export interface StoredOverride {
+  user_id: string;
+  api_requests_per_minute: number | null;
+  upload_requests_per_minute: number | null;
+  chat_requests_per_minute: number | null;
+  max_documents: number | null;
+  max_storage_bytes: bigint | null;
+  chat_messages_per_day: number | null;
+  updated_by: string | null;
+  updated_at: Date;
+}
+
+export interface StoredDailyUsage {
+  user_id: string;
+  day: Date;
+  chat_messages: number;
+}
+
+export interface StoredDocument {
+  id: string;
+  user_id: string;
+  // Bytes of every version of the document
+  version_sizes: number[];
+}
+
+export const createUsagePrisma = () => {
+  const usageLimitOverride: InMemoryTable<StoredOverride> = createTable<StoredOverride>({
+    create: (data) => ({
+      user_id: '',
+      api_requests_per_minute: null,
+      upload_requests_per_minute: null,
+      chat_requests_per_minute: null,
+      max_documents: null,
+      max_storage_bytes: null,
+      chat_messages_per_day: null,
+      updated_by: null,
+      updated_at: new Date(),
+      ...data,
+    }),
+  });
+
+  const user: InMemoryTable<StoredUser> = createTable<StoredUser>({
+    create: (data) => ({
+      id: `user-${user.rows.length + 1}`,
+      email: `user-${user.rows.length + 1}@example.com`,
+      role: Role.USER,
+      disabled_at: null,
+      ...data,
+    }),
+    relations: (row) => ({ usage_limits: usageLimitOverride.rows.find((o) => o.user_id === row.id) ?? null }),
+  });
+
+  const dailyUsage = createTable<StoredDailyUsage>({
+    create: (data) => ({ user_id: '', day: new Date(0), chat_messages: 0, ...data }),
+  });
+
+  const document: InMemoryTable<StoredDocument> = createTable<StoredDocument>({
+    create: (data) => ({ id: `document-${document.rows.length + 1}`, user_id: '', version_sizes: [], ...data }),
+  });
+
+  // Only the sum of file sizes for one owner is asked for
+  const documentVersion = {
+    aggregate: jest.fn(async ({ where }: { where: { document: { user_id: string } } }) => {
+      const owned = document.rows.filter((d) => d.user_id === where.document.user_id);
+      const sizes = owned.flatMap((d) => d.version_sizes);
+      return { _sum: { file_size: sizes.length ? sizes.reduce((sum, size) => sum + size, 0) : null } };
+    }),
+  };
+
+  const client = {
+    user,
+    usageLimitOverride,
+    dailyUsage,
+    document,
+    documentVersion,
+    // Stands in for the storage lock taken at the start of a transaction
+    $executeRaw: jest.fn(async () => 0),
+  };
+
+  // Interactive transactions run one at a time, as they would while waiting on the same owner's storage lock
+  let running: Promise<unknown> = Promise.resolve();
+  const $transaction = jest.fn(async <T>(write: (tx: typeof client) => Promise<T>): Promise<T> => {
+    const result = running.then(() => write(client));
+    running = result.catch(() => undefined);
+    return result;
+  });
+
+  return { ...client, $transaction };
+};
+
+export type UsagePrisma = ReturnType<typeof createUsagePrisma>;